@@ -11,3 +11,5 @@ export { useFhevm } from './useFhevm.js';
 export { useContract } from './useContract.js';
 export { useDecrypt } from './useDecrypt.js';
 export { useEncrypt } from './useEncrypt.js';
+export { useFhevmStore } from './useFhevmStore.js';
+export { useTransactionTracker } from './useTransactionTracker.js';
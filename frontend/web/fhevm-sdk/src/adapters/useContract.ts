@@ -1,26 +1,30 @@
 /**
  * Wagmi-like hook for contract interactions
+ * Pass a typechain contract type, e.g. useContract<UniversalFHEAdapter>(address, abi),
+ * to get typed methods and events.
  */
 
 import { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
+import { toFhevmError } from '../core/index.js';
+import type { FhevmError } from '../core/index.js';
 
-export function useContract(address: string, abi: any[]) {
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
+export function useContract<T extends ethers.BaseContract = ethers.Contract>(address: string, abi: ethers.InterfaceAbi) {
+  const [contract, setContract] = useState<T | null>(null);
   const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
   useEffect(() => {
     if (!window.ethereum || !address || !abi) return;
 
     try {
       const provider = new ethers.BrowserProvider(window.ethereum);
-      const contractInstance = new ethers.Contract(address, abi, provider);
+      const contractInstance = new ethers.Contract(address, abi, provider) as unknown as T;
       setContract(contractInstance);
       setIsReady(true);
-      setError('');
+      setError(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Contract setup failed');
+      setError(toFhevmError(err));
       setIsReady(false);
     }
   }, [address, abi]);
@@ -2,46 +2,27 @@
  * Wagmi-like hook for decryption operations - FHE v0.9
  */
 
-import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { useCallback } from 'react';
+import { fhevmStore, verifyPublicDecryption } from '../core/index.js';
+import type { FheInputType, FhevmOperationOptions } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
 export function useDecrypt() {
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const { pending, error } = useFhevmStore((state) => state.operations.decrypt);
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
     contractAddress: string, 
-    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>,
+    types?: FheInputType[],
+    options?: FhevmOperationOptions
   ) => {
-    setIsDecrypting(true);
-    setError('');
-    
-    try {
-      const decryptionResult = await publicDecryptV09(handles);
-      
-      const tx = await verifyFunction(
-        decryptionResult.abiEncodedClearValues,
-        decryptionResult.decryptionProof
-      );
-      
-      const receipt = await tx.wait();
-      
-      return {
-        decryptionResult,
-        transactionReceipt: receipt
-      };
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
-    } finally {
-      setIsDecrypting(false);
-    }
+    return fhevmStore.runOperation('decrypt', () => verifyPublicDecryption(handles, verifyFunction, types, options));
   }, []);
 
   return {
     verifyDecryption,
-    isDecrypting,
+    isDecrypting: pending > 0,
     error,
   };
 }
\ No newline at end of file
@@ -2,31 +2,21 @@
  * Wagmi-like hook for encryption operations
  */
 
-import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { useCallback } from 'react';
+import { createEncryptedInput, fhevmStore } from '../core/index.js';
+import type { FhevmOperationOptions } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
 export function useEncrypt() {
-  const [isEncrypting, setIsEncrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const { pending, error } = useFhevmStore((state) => state.operations.encrypt);
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
-    setIsEncrypting(true);
-    setError('');
-    
-    try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
-      return result;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
-    } finally {
-      setIsEncrypting(false);
-    }
+  const encrypt = useCallback((contractAddress: string, userAddress: string, value: number, options?: FhevmOperationOptions) => {
+    return fhevmStore.runOperation('encrypt', () => createEncryptedInput(contractAddress, userAddress, value, options));
   }, []);
 
   return {
     encrypt,
-    isEncrypting,
+    isEncrypting: pending > 0,
     error,
   };
 }
@@ -2,30 +2,37 @@
  * Wagmi-like hook for FHEVM instance
  */
 
-import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { useCallback, useEffect, useRef } from 'react';
+import { initializeFheInstance, logger } from '../core/index.js';
+import type { FhevmInitOptions } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
-export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
-  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
+/**
+ * @param options - passed to initializeFheInstance (e.g. `{ worker: true }`);
+ * `autoInitialize` initializes after mount, so never during server rendering
+ */
+export function useFhevm(options?: FhevmInitOptions & { autoInitialize?: boolean }) {
+  const { instance, status, error } = useFhevmStore((state) => state.instance);
+  // Latest options without making initialize change identity every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
 
   const initialize = useCallback(async () => {
-    setStatus('loading');
-    setError('');
-    
     try {
-      const fheInstance = await initializeFheInstance();
-      setInstance(fheInstance);
-      setStatus('ready');
-      console.log('✅ FHEVM initialized');
+      // Status and errors land in the shared store, so every component sees them
+      await initializeFheInstance(optionsRef.current);
+      logger.info('✅ FHEVM initialized');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-      setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
+      logger.error('❌ FHEVM initialization failed:', err);
     }
   }, []);
 
+  // Effects only run on the client; every mounted hook shares one client, so this initializes once
+  const autoInitialize = options?.autoInitialize ?? false;
+  useEffect(() => {
+    if (autoInitialize) initialize();
+  }, [autoInitialize, initialize]);
+
   return {
     instance,
     status,
@@ -0,0 +1,18 @@
+/**
+ * Wagmi-like hook for the shared SDK state
+ */
+
+import { useSyncExternalStore } from 'react';
+import { fhevmStore, INITIAL_FHEVM_STATE } from '../core/index.js';
+import type { FhevmState } from '../core/index.js';
+
+/**
+ * Subscribe to a slice of the shared store; re-renders only when that slice changes.
+ * The selector must return a part of the state (not a new object) to stay stable.
+ * Server renders and hydration see the initial state, so markup always matches.
+ */
+export function useFhevmStore<T>(selector: (state: FhevmState) => T): T {
+  const getSlice = () => selector(fhevmStore.getSnapshot());
+  const getServerSlice = () => selector(INITIAL_FHEVM_STATE);
+  return useSyncExternalStore(fhevmStore.subscribe, getSlice, getServerSlice);
+}
@@ -0,0 +1,60 @@
+/**
+ * Wagmi-like hook for transaction lifecycle tracking
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { ethers } from 'ethers';
+import { ProviderNotFoundError, TransactionTracker } from '../core/index.js';
+import type { TrackedTransaction, TrackOptions, TransactionTrackerOptions } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+
+const NO_TRANSACTIONS: TrackedTransaction[] = [];
+const noSubscription = () => () => {};
+
+/**
+ * Track transactions and re-render on every state change. Unfinished
+ * transactions from before a reload are resumed on mount.
+ *
+ * @param options - tracker options; `provider` defaults to the injected wallet,
+ * and the tracker is rebuilt when the wallet switches chain
+ */
+export function useTransactionTracker(options?: TransactionTrackerOptions & { provider?: ethers.Provider }) {
+  const chainId = useFhevmStore((state) => state.wallet.chainId);
+  // Latest options without rebuilding the tracker every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const provider = options?.provider;
+  const tracker = useMemo(() => {
+    // Server render: no wallet, nothing to track
+    if (typeof window === 'undefined') return null;
+    const source = provider ?? (window.ethereum ? new ethers.BrowserProvider(window.ethereum) : null);
+    return source ? new TransactionTracker(source, optionsRef.current) : null;
+  }, [provider, chainId]);
+
+  useEffect(() => {
+    if (!tracker) return;
+    tracker.resume().catch(() => {});
+    return () => tracker.stop();
+  }, [tracker]);
+
+  const transactions = useSyncExternalStore(
+    tracker?.subscribe ?? noSubscription,
+    () => tracker?.getSnapshot() ?? NO_TRANSACTIONS,
+    () => NO_TRANSACTIONS
+  );
+
+  const track = useCallback((tx: ethers.TransactionResponse, trackOptions?: TrackOptions) => {
+    if (!tracker) throw new ProviderNotFoundError();
+    return tracker.track(tx, trackOptions);
+  }, [tracker]);
+
+  const forget = useCallback((hash: string) => tracker?.forget(hash), [tracker]);
+
+  return {
+    transactions,
+    pending: transactions.filter((tx) => tx.status === 'submitted' || tx.status === 'pending'),
+    track,
+    forget,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Vue Adapter - Universal FHEVM SDK
+ * Vue 3 composables with the same state and actions as the React hooks,
+ * backed by the same shared store. Import from '@fhevm-sdk/vue' so React
+ * is never pulled in.
+ */
+
+import { computed, onMounted, onUnmounted, ref, shallowRef, unref, watch } from 'vue';
+import type { Ref } from 'vue';
+import { ethers } from 'ethers';
+import {
+  connectWallet,
+  createEncryptedInput,
+  disconnectWallet,
+  fhevmStore,
+  initializeFheInstance,
+  logger,
+  toFhevmError,
+  verifyPublicDecryption,
+  watchWallet,
+} from '../core/index.js';
+import type { FheInputType, FhevmError, FhevmInitOptions, FhevmOperationOptions, FhevmState } from '../core/index.js';
+
+/**
+ * Ref following a slice of the shared store while the component is mounted, so
+ * server rendering never subscribes. Shallow: the store replaces slices on every
+ * change, and a deep ref would proxy the RelayerSDK instance.
+ */
+export function useFhevmStore<T>(selector: (state: FhevmState) => T): Readonly<Ref<T>> {
+  const slice = shallowRef(selector(fhevmStore.getSnapshot()));
+  let unsubscribe: (() => void) | undefined;
+
+  onMounted(() => {
+    const update = () => {
+      slice.value = selector(fhevmStore.getSnapshot());
+    };
+    // Pick up changes made between setup and mount
+    update();
+    unsubscribe = fhevmStore.subscribe(update);
+  });
+  onUnmounted(() => unsubscribe?.());
+  return slice;
+}
+
+/**
+ * Wallet connection; listens to chain and account changes while the component is mounted
+ */
+export function useWallet() {
+  const wallet = useFhevmStore((state) => state.wallet);
+  let stopWatching: (() => void) | undefined;
+
+  onMounted(() => {
+    stopWatching = watchWallet();
+  });
+  onUnmounted(() => stopWatching?.());
+
+  return {
+    address: computed(() => wallet.value.address),
+    isConnected: computed(() => wallet.value.isConnected),
+    chainId: computed(() => wallet.value.chainId),
+    isConnecting: computed(() => wallet.value.isConnecting),
+    error: computed(() => wallet.value.error),
+    connect: connectWallet,
+    disconnect: disconnectWallet,
+  };
+}
+
+/**
+ * FHEVM instance; options are passed to initializeFheInstance (e.g. `{ worker: true }`).
+ * `autoInitialize` initializes once mounted, so never during server rendering.
+ */
+export function useFhevm(options?: FhevmInitOptions & { autoInitialize?: boolean }) {
+  const state = useFhevmStore((current) => current.instance);
+
+  const initialize = async () => {
+    try {
+      // Status and errors land in the shared store, so every component sees them
+      await initializeFheInstance(options);
+      logger.info('✅ FHEVM initialized');
+    } catch (err) {
+      logger.error('❌ FHEVM initialization failed:', err);
+    }
+  };
+
+  if (options?.autoInitialize) onMounted(initialize);
+
+  return {
+    instance: computed(() => state.value.instance),
+    status: computed(() => state.value.status),
+    error: computed(() => state.value.error),
+    initialize,
+    isInitialized: computed(() => state.value.status === 'ready'),
+  };
+}
+
+/**
+ * Contract bound to the injected wallet; rebuilt when the address or ABI ref changes.
+ * Pass a typechain contract type for typed methods and events.
+ */
+export function useContract<T extends ethers.BaseContract = ethers.Contract>(address: string | Ref<string>, abi: ethers.InterfaceAbi | Ref<ethers.InterfaceAbi>) {
+  // Shallow, so the ethers contract is not wrapped in a reactive proxy
+  const contract = shallowRef(null) as Ref<T | null>;
+  const isReady = ref(false);
+  const error = ref<FhevmError | null>(null);
+
+  watch(
+    () => [unref(address), unref(abi)] as const,
+    ([currentAddress, currentAbi]: readonly [string, ethers.InterfaceAbi]) => {
+      if (typeof window === 'undefined' || !window.ethereum || !currentAddress || !currentAbi) return;
+
+      try {
+        const provider = new ethers.BrowserProvider(window.ethereum);
+        contract.value = new ethers.Contract(currentAddress, currentAbi, provider) as unknown as T;
+        isReady.value = true;
+        error.value = null;
+      } catch (err) {
+        error.value = toFhevmError(err);
+        isReady.value = false;
+      }
+    },
+    { immediate: true }
+  );
+
+  return {
+    contract,
+    isReady,
+    error,
+  };
+}
+
+/**
+ * Encryption operations
+ */
+export function useEncrypt() {
+  const state = useFhevmStore((current) => current.operations.encrypt);
+
+  const encrypt = (contractAddress: string, userAddress: string, value: number, options?: FhevmOperationOptions) => {
+    return fhevmStore.runOperation('encrypt', () => createEncryptedInput(contractAddress, userAddress, value, options));
+  };
+
+  return {
+    encrypt,
+    isEncrypting: computed(() => state.value.pending > 0),
+    error: computed(() => state.value.error),
+  };
+}
+
+/**
+ * Decryption operations - FHE v0.9
+ */
+export function useDecrypt() {
+  const state = useFhevmStore((current) => current.operations.decrypt);
+
+  const verifyDecryption = async (
+    handles: string[],
+    contractAddress: string,
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>,
+    types?: FheInputType[],
+    options?: FhevmOperationOptions
+  ) => {
+    return fhevmStore.runOperation('decrypt', () => verifyPublicDecryption(handles, verifyFunction, types, options));
+  };
+
+  return {
+    verifyDecryption,
+    isDecrypting: computed(() => state.value.pending > 0),
+    error: computed(() => state.value.error),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * CLI Commands - Universal FHEVM SDK
+ * Each command returns a JSON-serializable result; printing and exit codes
+ * are handled by the entry point.
+ */
+
+import { ethers } from "ethers";
+import { FhevmClient } from '../core/client.js';
+import type { FhevmMode } from '../core/client.js';
+import { InvalidInputError } from '../core/errors.js';
+import { parseHandle } from '../core/handles.js';
+import type { FheInputType } from '../core/input.js';
+import { HARDHAT_CHAIN_ID } from '../core/mock.js';
+import { SEPOLIA_CHAIN_ID } from '../core/networks.js';
+import { isPermitExpired, permitExpiresAt, PermitManager } from '../core/permits.js';
+import type { DecryptionPermit } from '../core/permits.js';
+import { loadSigner } from './keys.js';
+import type { KeySource } from './keys.js';
+
+const FHE_INPUT_TYPES: FheInputType[] = ['ebool', 'euint8', 'euint16', 'euint32', 'euint64', 'euint128', 'euint256', 'eaddress'];
+
+/** Global options, already merged with their environment variables */
+export interface CliConfig {
+  mode?: FhevmMode;
+  chainId?: number;
+  rpcUrl?: string;
+  relayerUrl?: string;
+  keys: KeySource;
+  permits: PermitManager;
+}
+
+/** Options of the individual commands */
+export interface CommandFlags {
+  type?: string[];
+  contract?: string;
+  user?: string;
+  durationDays?: number;
+  all?: boolean;
+}
+
+/**
+ * Create and initialize a Node.js client; mock mode unless a non-Hardhat chain is given
+ *
+ * @param chainIdHint - chain read from the handles, used when no chain ID is configured
+ */
+async function connect(config: CliConfig, chainIdHint?: number): Promise<FhevmClient> {
+  const configuredChainId = config.chainId ?? chainIdHint;
+  const mode = config.mode ?? (configuredChainId === undefined || configuredChainId === HARDHAT_CHAIN_ID ? 'mock' : 'relayer');
+  const chainId = configuredChainId ?? (mode === 'mock' ? HARDHAT_CHAIN_ID : SEPOLIA_CHAIN_ID);
+
+  const client = new FhevmClient({
+    chainId,
+    mode,
+    environment: 'node',
+    provider: config.rpcUrl,
+    signer: await loadSigner(config.keys),
+    relayer: config.relayerUrl ? { baseUrl: config.relayerUrl } : undefined,
+    permits: config.permits,
+  });
+  await client.initialize();
+  return client;
+}
+
+function requireAddress(value: string | undefined, flag: string): string {
+  if (!value) throw new InvalidInputError(`${flag} is required`);
+  if (!ethers.isAddress(value)) throw new InvalidInputError(`${flag} ${value} is not an address`);
+  return ethers.getAddress(value);
+}
+
+function requireHandles(handles: string[]): string[] {
+  if (handles.length === 0) throw new InvalidInputError('Pass at least one handle');
+  return handles;
+}
+
+// Chain every handle was created on, when they agree
+function chainOf(handles: string[]): number | undefined {
+  const chainIds = new Set(handles.map((handle) => parseHandle(handle).chainId));
+  return chainIds.size === 1 ? [...chainIds][0] : undefined;
+}
+
+function toFheType(type: string): FheInputType {
+  if (!FHE_INPUT_TYPES.includes(type as FheInputType)) {
+    throw new InvalidInputError(`Unknown --type ${type}. Use one of ${FHE_INPUT_TYPES.join(', ')}`);
+  }
+  return type as FheInputType;
+}
+
+function parseClearInput(type: FheInputType, value: string): bigint | boolean | string {
+  if (type === 'eaddress') return value;
+  if (type === 'ebool') {
+    if (value === 'true' || value === 'false') return value === 'true';
+  }
+  try {
+    return BigInt(value);
+  } catch {
+    throw new InvalidInputError(`${value} is not a valid ${type} value`);
+  }
+}
+
+/**
+ * fhevm encrypt --type euint32 --contract <address> [--user <address>] <value...>
+ */
+export async function encryptCommand(config: CliConfig, values: string[], flags: CommandFlags) {
+  if (values.length === 0) throw new InvalidInputError('Pass at least one value to encrypt');
+  const types = (flags.type?.length ? flags.type : ['euint32']).map(toFheType);
+  if (types.length !== 1 && types.length !== values.length) {
+    throw new InvalidInputError(`Got ${types.length} --type flag(s) for ${values.length} value(s); pass one type or one per value`);
+  }
+  const contractAddress = requireAddress(flags.contract, '--contract');
+
+  const client = await connect(config);
+  const userAddress = flags.user
+    ? requireAddress(flags.user, '--user')
+    : await client.getSigner()?.getAddress();
+  if (!userAddress) throw new InvalidInputError('--user is required when no key is configured');
+
+  const builder = client.encryptedInput(contractAddress, userAddress);
+  values.forEach((value, i) => {
+    const type = types.length === 1 ? types[0] : types[i];
+    builder.add(type, parseClearInput(type, value));
+  });
+  const { entries, inputProof } = await builder.encrypt();
+
+  return { chainId: client.chainId, contractAddress, userAddress, handles: entries, inputProof };
+}
+
+/**
+ * fhevm decrypt --contract <address> <handle...>  (EIP-712 user decryption)
+ */
+export async function decryptCommand(config: CliConfig, handles: string[], flags: CommandFlags) {
+  requireHandles(handles);
+  const contractAddress = requireAddress(flags.contract, '--contract');
+
+  const client = await connect(config, chainOf(handles));
+  const signer = client.getSigner();
+  if (!signer) {
+    throw new InvalidInputError(`User decryption needs a key. Set $${config.keys.privateKeyEnv} or pass --keystore.`);
+  }
+
+  const clearValues = await client.batchDecryptPairs(
+    handles.map((handle) => ({ handle, contractAddress })),
+    undefined,
+    { durationDays: flags.durationDays }
+  );
+
+  return {
+    chainId: client.chainId,
+    contractAddress,
+    userAddress: await signer.getAddress(),
+    values: handles.map((handle) => ({ handle, type: parseHandle(handle).fheType, value: clearValues[handle] })),
+  };
+}
+
+/**
+ * fhevm public-decrypt <handle...>
+ */
+export async function publicDecryptCommand(config: CliConfig, handles: string[]) {
+  requireHandles(handles);
+  const client = await connect(config, chainOf(handles));
+  const result = await client.publicDecryptV09(handles);
+  return { chainId: client.chainId, ...result };
+}
+
+/**
+ * fhevm inspect-handle <handle...>  (offline)
+ */
+export function inspectHandleCommand(handles: string[]) {
+  return requireHandles(handles).map((handle) => parseHandle(handle));
+}
+
+// Never print the keypair or signature
+function describePermit(permit: DecryptionPermit) {
+  return {
+    id: permit.id,
+    chainId: permit.chainId,
+    userAddress: permit.userAddress,
+    contractAddresses: permit.contractAddresses,
+    startTimestamp: permit.startTimestamp,
+    durationDays: permit.durationDays,
+    expiresAt: new Date(permitExpiresAt(permit) * 1000).toISOString(),
+    expired: isPermitExpired(permit),
+  };
+}
+
+/**
+ * fhevm permits list [--user <address>] [--chain-id <id>]
+ * fhevm permits revoke <id...> | --all [--user <address>] [--chain-id <id>]
+ */
+export async function permitsCommand(config: CliConfig, args: string[], flags: CommandFlags) {
+  const [action, ...ids] = args;
+  const filter = { userAddress: flags.user, chainId: config.chainId };
+
+  switch (action) {
+    case 'list':
+      return (await config.permits.listPermits(filter)).map(describePermit);
+    case 'revoke': {
+      if (flags.all) return { revoked: await config.permits.revokeAll(filter) };
+      if (ids.length === 0) throw new InvalidInputError('Pass the permit IDs to revoke, or --all');
+
+      const known = new Set((await config.permits.listPermits()).map((permit) => permit.id));
+      const missing = ids.filter((id) => !known.has(id));
+      if (missing.length > 0) throw new InvalidInputError(`No stored permit ${missing.join(', ')}`);
+      for (const id of ids) await config.permits.revokePermit(id);
+      return { revoked: ids.length };
+    }
+    default:
+      throw new InvalidInputError(`Unknown permits action ${action ?? '(none)'}. Use "permits list" or "permits revoke".`);
+  }
+}
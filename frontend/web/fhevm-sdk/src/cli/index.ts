@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * fhevm CLI - Universal FHEVM SDK
+ * Encrypt, decrypt and inspect handles from the shell on the Node.js SDK
+ * path, against the local mock backend or a real relayer. Results go to
+ * stdout as JSON; logs and errors go to stderr.
+ */
+
+import { parseArgs } from "util";
+import { toFhevmError } from '../core/errors.js';
+import { setLogger, setLogLevel } from '../core/logger.js';
+import type { FhevmMode } from '../core/client.js';
+import { PermitManager } from '../core/permits.js';
+import { FilePermitStore, DEFAULT_PERMIT_FILE } from '../server/permitStore.js';
+import { decryptCommand, encryptCommand, inspectHandleCommand, permitsCommand, publicDecryptCommand } from './commands.js';
+import type { CliConfig, CommandFlags } from './commands.js';
+import { DEFAULT_KEYSTORE_PASSWORD_ENV, DEFAULT_PRIVATE_KEY_ENV } from './keys.js';
+
+const USAGE = `Usage: fhevm <command> [options]
+
+Commands:
+  encrypt --type <type> --contract <address> [--user <address>] <value...>
+  decrypt --contract <address> <handle...>       EIP-712 user decryption
+  public-decrypt <handle...>
+  inspect-handle <handle...>                     offline, no network
+  permits list [--user <address>]
+  permits revoke <id...> | --all [--user <address>]
+
+Options (environment variable in brackets):
+  --mode <mock|relayer>     [FHEVM_MODE] default: mock, or relayer for a non-Hardhat chain
+  --chain-id <id>           [FHEVM_CHAIN_ID] default: the handles' chain, else 31337
+  --rpc-url <url>           [FHEVM_RPC_URL] default in mock mode: http://127.0.0.1:8545
+  --relayer-url <url>       [FHEVM_RELAYER_URL] mock mode: relayer stand-in URL
+  --private-key-env <name>  variable holding the private key (default ${DEFAULT_PRIVATE_KEY_ENV})
+  --keystore <path>         [FHEVM_KEYSTORE] encrypted JSON keystore
+  --password-env <name>     variable holding the keystore password (default ${DEFAULT_KEYSTORE_PASSWORD_ENV})
+  --permits-file <path>     [FHEVM_PERMITS_FILE] default: ${DEFAULT_PERMIT_FILE}
+  --memory-permits          keep permits in memory only (nothing is written to disk)
+  --duration-days <days>    validity of newly signed permits
+  --verbose                 SDK logs on stderr
+  -h, --help
+`;
+
+const OPTIONS = {
+  mode: { type: 'string' },
+  'chain-id': { type: 'string' },
+  'rpc-url': { type: 'string' },
+  'relayer-url': { type: 'string' },
+  'private-key-env': { type: 'string' },
+  keystore: { type: 'string' },
+  'password-env': { type: 'string' },
+  'permits-file': { type: 'string' },
+  'memory-permits': { type: 'boolean' },
+  'duration-days': { type: 'string' },
+  type: { type: 'string', multiple: true },
+  contract: { type: 'string' },
+  user: { type: 'string' },
+  all: { type: 'boolean' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+/** Bad command line: usage goes to stderr, exit code 2 */
+class UsageError extends Error {}
+
+function toInteger(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) throw new UsageError(`${flag} must be a positive integer, got ${value}`);
+  return number;
+}
+
+function toMode(value: string | undefined): FhevmMode | undefined {
+  if (value === undefined || value === 'mock' || value === 'relayer') return value;
+  throw new UsageError(`--mode must be mock or relayer, got ${value}`);
+}
+
+// bigint clear values as decimal strings, bytes as hex
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === 'bigint') return item.toString();
+    if (item instanceof Uint8Array) return `0x${Buffer.from(item).toString('hex')}`;
+    return item;
+  }, 2);
+}
+
+async function run(argv: string[], env: NodeJS.ProcessEnv): Promise<unknown> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (err: any) {
+    throw new UsageError(err?.message ?? String(err));
+  }
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return undefined;
+  }
+
+  // stdout is reserved for the JSON result
+  setLogger({ debug: console.error, info: console.error, warn: console.error, error: console.error });
+  setLogLevel(values.verbose ? 'debug' : 'warn');
+
+  const config: CliConfig = {
+    mode: toMode(values.mode ?? env.FHEVM_MODE),
+    chainId: toInteger(values['chain-id'] ?? env.FHEVM_CHAIN_ID, '--chain-id'),
+    rpcUrl: values['rpc-url'] ?? env.FHEVM_RPC_URL,
+    relayerUrl: values['relayer-url'] ?? env.FHEVM_RELAYER_URL,
+    keys: {
+      privateKeyEnv: values['private-key-env'] ?? DEFAULT_PRIVATE_KEY_ENV,
+      keystore: values.keystore ?? env.FHEVM_KEYSTORE,
+      passwordEnv: values['password-env'] ?? DEFAULT_KEYSTORE_PASSWORD_ENV,
+    },
+    permits: values['memory-permits']
+      ? new PermitManager({ persist: false })
+      : new PermitManager({ store: new FilePermitStore(values['permits-file'] ?? env.FHEVM_PERMITS_FILE ?? DEFAULT_PERMIT_FILE) }),
+  };
+  const flags: CommandFlags = {
+    type: values.type,
+    contract: values.contract,
+    user: values.user,
+    durationDays: toInteger(values['duration-days'], '--duration-days'),
+    all: values.all,
+  };
+
+  switch (command) {
+    case 'encrypt': return encryptCommand(config, args, flags);
+    case 'decrypt': return decryptCommand(config, args, flags);
+    case 'public-decrypt': return publicDecryptCommand(config, args);
+    case 'inspect-handle': return inspectHandleCommand(args);
+    case 'permits': return permitsCommand(config, args, flags);
+    default: throw new UsageError(`Unknown command ${command}`);
+  }
+}
+
+async function main() {
+  let exitCode = 0;
+  try {
+    const result = await run(process.argv.slice(2), process.env);
+    if (result !== undefined) process.stdout.write(`${toJson(result)}\n`);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      process.stderr.write(`${err.message}\n\n${USAGE}`);
+      exitCode = 2;
+    } else {
+      const error = toFhevmError(err);
+      process.stderr.write(`${toJson({ error: { code: error.code, message: error.message } })}\n`);
+      exitCode = 1;
+    }
+  }
+  // RPC providers keep timers alive; the result is already written
+  process.exit(exitCode);
+}
+
+main();
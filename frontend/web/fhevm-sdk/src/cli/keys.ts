@@ -0,0 +1,44 @@
+/**
+ * CLI Keys - Universal FHEVM SDK
+ * Loads the signer from an environment variable or an encrypted JSON
+ * keystore. Keys are never accepted on the command line, where they would
+ * end up in shell history.
+ */
+
+import { readFile } from "fs/promises";
+import { ethers } from "ethers";
+import { InvalidInputError } from '../core/errors.js';
+
+export const DEFAULT_PRIVATE_KEY_ENV = 'FHEVM_PRIVATE_KEY';
+export const DEFAULT_KEYSTORE_PASSWORD_ENV = 'FHEVM_KEYSTORE_PASSWORD';
+
+export interface KeySource {
+  /** Variable holding a hex private key */
+  privateKeyEnv: string;
+  /** Encrypted JSON keystore (geth / ethers format); wins over the variable */
+  keystore?: string;
+  /** Variable holding the keystore password */
+  passwordEnv: string;
+}
+
+/**
+ * Signer from the keystore or the private key variable; undefined when neither is set
+ */
+export async function loadSigner(source: KeySource, env: NodeJS.ProcessEnv = process.env): Promise<ethers.Signer | undefined> {
+  if (source.keystore) {
+    const password = env[source.passwordEnv];
+    if (password === undefined) {
+      throw new InvalidInputError(`Keystore ${source.keystore} needs its password in $${source.passwordEnv}`);
+    }
+    const json = await readFile(source.keystore, 'utf8');
+    return ethers.Wallet.fromEncryptedJson(json, password);
+  }
+
+  const privateKey = env[source.privateKeyEnv];
+  if (!privateKey) return undefined;
+  try {
+    return new ethers.Wallet(privateKey);
+  } catch (err) {
+    throw new InvalidInputError(`$${source.privateKeyEnv} is not a valid private key`, { cause: err });
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { assertAclAllowed, checkPublicDecryptAccess, checkUserDecryptAccess, getAclContract } from './acl.js';
+import type { AclReader } from './acl.js';
+import { AclNotAllowedError } from './errors.js';
+import { getNetworkPreset } from './networks.js';
+
+const USER = '0x1111111111111111111111111111111111111111';
+const CONTRACT = '0x2222222222222222222222222222222222222222';
+
+// euint32 input handle on chain 31337
+function makeHandle(seed: number): string {
+  return ethers.concat([ethers.zeroPadValue(ethers.toBeHex(seed), 21), '0x00', ethers.toBeHex(31337, 8), '0x04', '0x00']);
+}
+
+// ACL answering from fixed allow lists
+function fakeAcl({ allowed = [] as Array<[string, string]>, publicHandles = [] as string[] } = {}): AclReader {
+  return {
+    isAllowed: async (handle, account) => allowed.some(([h, a]) => h === handle && a === account),
+    isAllowedForDecryption: async (handle) => publicHandles.includes(handle as string),
+  };
+}
+
+describe('ACL pre-flight checks', () => {
+  const granted = makeHandle(1);
+  const userOnly = makeHandle(2);
+
+  it('reports per handle whether the user and the contract may decrypt', async () => {
+    const acl = fakeAcl({ allowed: [[granted, USER], [granted, CONTRACT], [userOnly, USER]] });
+
+    const report = await checkUserDecryptAccess(acl, [
+      { handle: granted, contractAddress: CONTRACT },
+      { handle: userOnly, contractAddress: CONTRACT },
+    ], USER);
+
+    expect(report).toMatchObject({ kind: 'user', userAddress: USER, allowed: false });
+    expect(report.handles[0]).toMatchObject({ userAllowed: true, contractAllowed: true, allowed: true, reason: undefined });
+    expect(report.handles[1]).toMatchObject({ userAllowed: true, contractAllowed: false, allowed: false });
+    expect(report.handles[1].reason).toMatch(/contract 0x2222.* is not allowed on euint32 #0 on chain 31337 .*missing FHE\.allowThis/);
+  });
+
+  it('reports handles that were not made publicly decryptable', async () => {
+    const report = await checkPublicDecryptAccess(fakeAcl({ publicHandles: [granted] }), [granted, userOnly]);
+
+    expect(report.allowed).toBe(false);
+    expect(report.handles.map((status) => status.publiclyDecryptable)).toEqual([true, false]);
+    expect(report.handles[1].reason).toMatch(/missing FHE\.makePubliclyDecryptable/);
+  });
+
+  it('throws AclNotAllowedError listing every denied handle', async () => {
+    const report = await checkUserDecryptAccess(fakeAcl(), [{ handle: granted, contractAddress: CONTRACT }], USER);
+
+    expect(() => assertAclAllowed(report)).toThrow(AclNotAllowedError);
+    expect(() => assertAclAllowed(report)).toThrow(/User decryption not allowed by the ACL: user .*; contract /);
+  });
+
+  it('passes an allowed report', async () => {
+    const report = await checkPublicDecryptAccess(fakeAcl({ publicHandles: [granted] }), [granted]);
+
+    expect(() => assertAclAllowed(report)).not.toThrow();
+  });
+
+  it("binds the typechain IACL to the preset's ACL address", async () => {
+    const acl = getAclContract(new ethers.JsonRpcProvider('http://127.0.0.1:1', 31337, { staticNetwork: true }), 31337);
+
+    expect(await acl.getAddress()).toBe(getNetworkPreset(31337).aclContractAddress);
+    expect(acl.interface.getFunction('isAllowedForDecryption')?.format()).toBe('isAllowedForDecryption(bytes32)');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * ACL Pre-flight Checks - Universal SDK
+ * Reads the host chain's ACL contract before a decryption, so a missing
+ * FHE.allow / FHE.allowThis / FHE.makePubliclyDecryptable shows up as a
+ * clear AclNotAllowedError instead of an opaque relayer failure.
+ */
+
+import { ethers } from "ethers";
+import { AclNotAllowedError } from './errors.js';
+import type { HandleContractPair } from './batch.js';
+import { formatHandle } from './handles.js';
+import { getNetworkPreset } from './networks.js';
+import type { FhevmNetworkPreset } from './networks.js';
+import { IACL__factory } from './typechain/index.js';
+import type { IACL } from './typechain/index.js';
+
+/**
+ * The IACL view methods the checks need; a typechain `IACL` instance satisfies it
+ */
+export interface AclReader {
+  isAllowed(handle: ethers.BytesLike, account: ethers.AddressLike): Promise<boolean>;
+  isAllowedForDecryption(handle: ethers.BytesLike): Promise<boolean>;
+}
+
+export interface HandleAclStatus {
+  handle: string;
+  /** Contract the handle is decrypted through (user decryption only) */
+  contractAddress?: string;
+  /** isAllowed(handle, user) (user decryption only) */
+  userAllowed?: boolean;
+  /** isAllowed(handle, contract) (user decryption only) */
+  contractAllowed?: boolean;
+  /** isAllowedForDecryption(handle) */
+  publiclyDecryptable: boolean;
+  /** Whether the requested decryption may go ahead */
+  allowed: boolean;
+  /** Why not, when it may not */
+  reason?: string;
+}
+
+export interface AclReport {
+  kind: 'user' | 'public';
+  /** Set for user decryption */
+  userAddress?: string;
+  /** True when every handle is allowed */
+  allowed: boolean;
+  handles: HandleAclStatus[];
+}
+
+/**
+ * Typechain IACL binding for the ACL of a network preset, or of the preset registered for a chain ID
+ */
+export function getAclContract(runner: ethers.ContractRunner, network: FhevmNetworkPreset | number): IACL {
+  const { aclContractAddress } = typeof network === 'number' ? getNetworkPreset(network) : network;
+  return IACL__factory.connect(aclContractAddress, runner);
+}
+
+/**
+ * Check that the user and each contract may decrypt their handles
+ * (both need an ACL entry for EIP-712 user decryption)
+ */
+export async function checkUserDecryptAccess(acl: AclReader, pairs: HandleContractPair[], userAddress: string): Promise<AclReport> {
+  const handles = await Promise.all(pairs.map(async ({ handle, contractAddress }): Promise<HandleAclStatus> => {
+    const [userAllowed, contractAllowed, publiclyDecryptable] = await Promise.all([
+      acl.isAllowed(handle, userAddress),
+      acl.isAllowed(handle, contractAddress),
+      acl.isAllowedForDecryption(handle),
+    ]);
+
+    const reasons: string[] = [];
+    if (!userAllowed) reasons.push(`user ${userAddress} is not allowed on ${formatHandle(handle)} (missing FHE.allow(handle, user))`);
+    if (!contractAllowed) reasons.push(`contract ${contractAddress} is not allowed on ${formatHandle(handle)} (missing FHE.allowThis(handle))`);
+    return {
+      handle,
+      contractAddress,
+      userAllowed,
+      contractAllowed,
+      publiclyDecryptable,
+      allowed: reasons.length === 0,
+      reason: reasons.length > 0 ? reasons.join('; ') : undefined,
+    };
+  }));
+
+  return { kind: 'user', userAddress, allowed: handles.every((status) => status.allowed), handles };
+}
+
+/**
+ * Check that each handle was made publicly decryptable
+ */
+export async function checkPublicDecryptAccess(acl: AclReader, handles: string[]): Promise<AclReport> {
+  const statuses = await Promise.all(handles.map(async (handle): Promise<HandleAclStatus> => {
+    const publiclyDecryptable = await acl.isAllowedForDecryption(handle);
+    return {
+      handle,
+      publiclyDecryptable,
+      allowed: publiclyDecryptable,
+      reason: publiclyDecryptable ? undefined : `${formatHandle(handle)} is not publicly decryptable (missing FHE.makePubliclyDecryptable(handle))`,
+    };
+  }));
+
+  return { kind: 'public', allowed: statuses.every((status) => status.allowed), handles: statuses };
+}
+
+/**
+ * Throw AclNotAllowedError listing every denied handle
+ */
+export function assertAclAllowed(report: AclReport): void {
+  if (report.allowed) return;
+  const reasons = report.handles.filter((status) => !status.allowed).map((status) => status.reason);
+  const kind = report.kind === 'user' ? 'User decryption' : 'Public decryption';
+  throw new AclNotAllowedError(`${kind} not allowed by the ACL: ${reasons.join('; ')}`);
+}
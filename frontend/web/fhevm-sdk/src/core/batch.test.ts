@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { MAX_CONTRACTS_PER_PERMIT, MAX_DECRYPT_BITS, handleBits, planUserDecryptBatches } from './batch.js';
+import type { HandleContractPair } from './batch.js';
+import { InvalidHandleError } from './errors.js';
+
+const EUINT32 = 4;
+const EUINT256 = 8;
+
+// Input handle of the given FHE type id on chain 31337
+function makeHandle(seed: number, typeId = EUINT32): string {
+  return ethers.concat([ethers.zeroPadValue(ethers.toBeHex(seed), 21), '0x00', ethers.toBeHex(31337, 8), ethers.toBeHex(typeId, 1), '0x00']);
+}
+
+function makeContract(seed: number): string {
+  return ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(seed), 20));
+}
+
+describe('planUserDecryptBatches', () => {
+  it('puts up to 10 contracts under one permit', () => {
+    const pairs = Array.from({ length: MAX_CONTRACTS_PER_PERMIT }, (_, i) => ({ handle: makeHandle(i + 1), contractAddress: makeContract(i + 1) }));
+
+    const batches = planUserDecryptBatches(pairs);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].contractAddresses).toHaveLength(MAX_CONTRACTS_PER_PERMIT);
+    expect(batches[0].requests).toEqual([expect.arrayContaining(pairs)]);
+  });
+
+  it('starts a new permit at the 11th contract', () => {
+    const pairs = Array.from({ length: 23 }, (_, i) => ({ handle: makeHandle(i + 1), contractAddress: makeContract(i + 1) }));
+
+    const batches = planUserDecryptBatches(pairs);
+
+    expect(batches.map((batch) => batch.contractAddresses.length)).toEqual([10, 10, 3]);
+    expect(new Set(batches.flatMap((batch) => batch.contractAddresses)).size).toBe(23);
+    for (const batch of batches) {
+      const covered = new Set(batch.contractAddresses);
+      expect(batch.requests.flat().every((pair) => covered.has(pair.contractAddress.toLowerCase()))).toBe(true);
+    }
+  });
+
+  it('splits one permit into requests of at most 2048 bits', () => {
+    const contractAddress = makeContract(1);
+    // 9 x 256 bits: 8 fill the first request exactly
+    const pairs = Array.from({ length: 9 }, (_, i) => ({ handle: makeHandle(i + 1, EUINT256), contractAddress }));
+
+    const [batch] = planUserDecryptBatches(pairs);
+
+    expect(batch.requests.map((request) => request.length)).toEqual([8, 1]);
+    for (const request of batch.requests) {
+      expect(request.reduce((bits, pair) => bits + handleBits(pair.handle), 0)).toBeLessThanOrEqual(MAX_DECRYPT_BITS);
+    }
+  });
+
+  it('packs mixed widths up to the bit limit before splitting', () => {
+    const contractAddress = makeContract(1);
+    const pairs: HandleContractPair[] = [
+      ...Array.from({ length: 7 }, (_, i) => ({ handle: makeHandle(i + 1, EUINT256), contractAddress })),
+      ...Array.from({ length: 9 }, (_, i) => ({ handle: makeHandle(100 + i, EUINT32), contractAddress })),
+    ];
+
+    const [batch] = planUserDecryptBatches(pairs);
+
+    // 7 x 256 + 8 x 32 = 2048, the 9th euint32 goes to a second request
+    expect(batch.requests.map((request) => request.length)).toEqual([15, 1]);
+  });
+
+  it('drops duplicate pairs regardless of case', () => {
+    const handle = makeHandle(1);
+    const contractAddress = makeContract(1);
+
+    const [batch] = planUserDecryptBatches([
+      { handle, contractAddress },
+      { handle: handle.toUpperCase().replace('0X', '0x'), contractAddress: contractAddress.toLowerCase() },
+    ]);
+
+    expect(batch.requests).toEqual([[{ handle, contractAddress }]]);
+  });
+
+  it('plans nothing for no pairs', () => {
+    expect(planUserDecryptBatches([])).toEqual([]);
+  });
+
+  it('rejects a malformed handle before planning', () => {
+    expect(() => planUserDecryptBatches([{ handle: '0x1234', contractAddress: makeContract(1) }])).toThrow(InvalidHandleError);
+  });
+});
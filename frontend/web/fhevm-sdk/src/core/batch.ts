@@ -0,0 +1,78 @@
+/**
+ * Cross-Contract Batch Planning - Universal SDK
+ * Splits (handle, contract) pairs into userDecrypt requests that fit the
+ * relayer limits while signing as few EIP-712 permits as possible.
+ */
+
+import { FHE_INPUT_BITS } from './input.js';
+import { handleType, parseHandle } from './handles.js';
+
+/** Relayer limit on contracts covered by one user-decrypt permit */
+export const MAX_CONTRACTS_PER_PERMIT = 10;
+
+/** Relayer limit on encrypted bits per decryption request */
+export const MAX_DECRYPT_BITS = 2048;
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+export interface UserDecryptBatch {
+  /** Contracts the permit for this batch must cover (lowercased, sorted) */
+  contractAddresses: string[];
+  /** Requests sent under that permit, each within MAX_DECRYPT_BITS */
+  requests: HandleContractPair[][];
+}
+
+export function handleBits(handle: string): number {
+  return FHE_INPUT_BITS[handleType(handle)];
+}
+
+/**
+ * Group pairs into the fewest permits, then split each permit's handles
+ * into requests that stay under the relayer's bit limit
+ */
+export function planUserDecryptBatches(pairs: HandleContractPair[]): UserDecryptBatch[] {
+  // Deduplicate and bucket handles by contract
+  const byContract = new Map<string, HandleContractPair[]>();
+  const seen = new Set<string>();
+  for (const pair of pairs) {
+    const contractAddress = pair.contractAddress.toLowerCase();
+    const key = `${contractAddress}:${pair.handle.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    // Reject malformed handles before any permit is planned for them
+    parseHandle(pair.handle);
+    const bucket = byContract.get(contractAddress) ?? [];
+    bucket.push({ handle: pair.handle, contractAddress: pair.contractAddress });
+    byContract.set(contractAddress, bucket);
+  }
+
+  const contracts = [...byContract.keys()].sort();
+  const batches: UserDecryptBatch[] = [];
+
+  for (let i = 0; i < contracts.length; i += MAX_CONTRACTS_PER_PERMIT) {
+    const contractAddresses = contracts.slice(i, i + MAX_CONTRACTS_PER_PERMIT);
+    const requests: HandleContractPair[][] = [];
+    let current: HandleContractPair[] = [];
+    let bits = 0;
+
+    for (const pair of contractAddresses.flatMap((address) => byContract.get(address)!)) {
+      const pairBits = handleBits(pair.handle);
+      if (bits + pairBits > MAX_DECRYPT_BITS) {
+        requests.push(current);
+        current = [];
+        bits = 0;
+      }
+      current.push(pair);
+      bits += pairBits;
+    }
+    if (current.length > 0) requests.push(current);
+
+    batches.push({ contractAddresses, requests });
+  }
+
+  return batches;
+}
@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmClient } from './client.js';
+import { RelayerUnavailableError } from './errors.js';
+import { setLogLevel } from './logger.js';
+
+// euint32 input handle on chain 31337
+const HANDLE = ethers.concat([`0x${'11'.repeat(21)}`, '0x00', ethers.toBeHex(31337, 8), '0x04', '0x00']);
+
+// Client whose instance answers publicDecrypt with the given value
+function clientReturning(result: unknown) {
+  const client = new FhevmClient({ chainId: 31337, mode: 'mock', aclCheck: false });
+  (client as any).instance = { publicDecrypt: async () => result };
+  return client;
+}
+
+describe('FhevmClient.publicDecryptV09', () => {
+  beforeAll(() => {
+    setLogLevel('silent');
+  });
+
+  it('returns a v0.9 result unchanged', async () => {
+    const result = { clearValues: { [HANDLE]: 1n }, abiEncodedClearValues: '0x01', decryptionProof: '0x02' };
+
+    await expect(clientReturning(result).publicDecryptV09([HANDLE])).resolves.toBe(result);
+  });
+
+  it('ABI-encodes an older handle -> value map without a proof', async () => {
+    const { clearValues, abiEncodedClearValues, decryptionProof } = await clientReturning({ [HANDLE]: 42 }).publicDecryptV09([HANDLE]);
+
+    expect(clearValues[HANDLE]).toBe(42n);
+    expect(ethers.AbiCoder.defaultAbiCoder().decode(['uint32'], abiEncodedClearValues)[0]).toBe(42n);
+    expect(decryptionProof).toBe('0x');
+  });
+
+  it.each([
+    ['null', null],
+    ['undefined', undefined],
+    ['a number', 42],
+    ['a string', 'ok'],
+  ])('rejects %s from the relayer with RelayerUnavailableError', async (_, result) => {
+    await expect(clientReturning(result).publicDecryptV09([HANDLE])).rejects.toBeInstanceOf(RelayerUnavailableError);
+  });
+
+  it('rejects a result missing one of the handles', async () => {
+    await expect(clientReturning({}).publicDecryptV09([HANDLE])).rejects.toThrow(/no value for/);
+  });
+});
@@ -0,0 +1,720 @@
+/**
+ * FHEVM Client - Universal SDK
+ * One FHEVM instance per (chain ID, provider) pair, so an app can talk to
+ * several chains and deployments side by side
+ */
+
+import { ethers } from "ethers";
+import { bindRelayerSignal, createMockFheInstance, DEFAULT_MOCK_RPC_URL } from './mock.js';
+import { createNodeFheInstance, resolveSigner } from './node.js';
+import type { FhevmSignerLike } from './node.js';
+import { EncryptedInputBuilder, FHE_ABI_TYPES, toClearValue, trackEncrypt } from './input.js';
+import type { ClearValue, FheInputType } from './input.js';
+import { getDefaultPermitManager } from './permits.js';
+import type { PermitManager, PermitRequestOptions } from './permits.js';
+import { planUserDecryptBatches } from './batch.js';
+import { assertHandleChain, assertHandleType } from './handles.js';
+import { DecryptScheduler } from './scheduler.js';
+import type { DecryptSchedulerOptions } from './scheduler.js';
+import { getNetworkPreset, toRelayerConfig } from './networks.js';
+import { assertBrowserEnvironment } from './environment.js';
+import type { FhevmEnvironment } from './environment.js';
+import type { FhevmNetworkPreset } from './networks.js';
+import { loadFheWasm } from './wasm.js';
+import type { WasmLoadOptions } from './wasm.js';
+import { FheWorker, withFheWorker } from './worker.js';
+import type { FheWorkerOptions } from './worker.js';
+import { fhevmEvents, redactHandles, reportRelayerError, startTimer } from './events.js';
+import { raceAbort, reportProgress, throwIfAborted } from './operation.js';
+import type { FhevmOperationOptions } from './operation.js';
+import { logger } from './logger.js';
+import { toRelayerTransport } from './transport.js';
+import type { HttpRelayerTransportOptions, RelayerTransport } from './transport.js';
+import { ClientConfigConflictError, FhevmNotInitializedError, InvalidInputError, ProviderNotFoundError, RelayerUnavailableError, toFhevmError, UnsupportedEnvironmentError, UnsupportedNetworkError } from './errors.js';
+import type { HandleContractPair } from './batch.js';
+import { assertAclAllowed, checkPublicDecryptAccess, checkUserDecryptAccess, getAclContract } from './acl.js';
+import type { AclReader, AclReport } from './acl.js';
+
+/**
+ * EIP-1193 provider (browser wallet) or JSON-RPC URL (Node.js)
+ */
+export type FhevmProvider = NonNullable<Window['ethereum']> | string;
+
+/**
+ * - relayer: real RelayerSDK instance (browser or Node.js), needs the Zama CDN and relayer
+ * - mock: @fhevm/mock-utils instance against a local Hardhat node, fully offline
+ */
+export type FhevmMode = 'relayer' | 'mock';
+
+export interface PublicDecryptResult {
+  clearValues: Record<string, ClearValue>;
+  /** Clear values ABI-encoded in handle order, typed per handle */
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+}
+
+export interface FhevmClientOptions {
+  chainId: number;
+  provider?: FhevmProvider;
+  mode?: FhevmMode;
+  /** Relayer mode: browser or Node.js RelayerSDK; detected from the provider when omitted */
+  environment?: FhevmEnvironment;
+  /** Contract addresses and relayer URL; defaults to the registered preset for chainId */
+  network?: FhevmNetworkPreset;
+  /** Overrides merged on top of the network preset */
+  instanceConfig?: Record<string, any>;
+  /**
+   * Mock mode only: send relayer calls through this transport (e.g. to the relayer
+   * stand-in) instead of the Hardhat node. The RelayerSDK makes its own HTTP calls.
+   */
+  relayer?: RelayerTransport | HttpRelayerTransportOptions;
+  /** Browser only: where the TFHE/KMS WASM files are loaded from */
+  wasm?: WasmLoadOptions;
+  /** Browser only: run encryption and keypair generation in a dedicated Web Worker */
+  worker?: boolean | FheWorkerOptions;
+  /** Where decryption permits are kept; defaults to the shared manager */
+  permits?: PermitManager;
+  /** Concurrency limit and coalescing window for decryptValue calls */
+  decryptScheduler?: DecryptSchedulerOptions;
+  /** Node.js only: signer or private key used for accounts, transactions and decryption permits */
+  signer?: FhevmSignerLike;
+  /** Check the ACL before decryptValue and publicDecryptV09 (default true) */
+  aclCheck?: boolean;
+}
+
+export class FhevmClient {
+  readonly chainId: number;
+  readonly provider?: FhevmProvider;
+  readonly mode: FhevmMode;
+  readonly environment?: FhevmEnvironment;
+  readonly network: FhevmNetworkPreset;
+  readonly permits: PermitManager;
+  readonly decryptScheduler: DecryptScheduler;
+  private instanceConfig: Record<string, any>;
+  private wasmOptions?: WasmLoadOptions;
+  private workerOptions?: FheWorkerOptions;
+  private transport?: RelayerTransport;
+  private signerOption?: FhevmSignerLike;
+  private signer?: ethers.Signer;
+  private instance: any = null;
+  private initializing: Promise<any> | null = null;
+  private aclCheck: boolean;
+  private acl?: AclReader | null;
+
+  constructor(options: FhevmClientOptions) {
+    this.chainId = options.chainId;
+    this.provider = options.provider;
+    this.mode = options.mode ?? 'relayer';
+    this.environment = options.environment;
+    // Unknown chains fail here rather than at the first relayer call
+    this.network = options.network ?? getNetworkPreset(options.chainId);
+    if (this.network.chainId !== options.chainId) {
+      throw new UnsupportedNetworkError(`Network preset "${this.network.name}" is for chain ${this.network.chainId}, not ${options.chainId}.`);
+    }
+    this.instanceConfig = options.instanceConfig ?? {};
+    this.wasmOptions = options.wasm;
+    if (options.worker) {
+      if (this.mode === 'mock') {
+        throw new InvalidInputError('Worker mode needs the RelayerSDK and cannot be used in mock mode.');
+      }
+      this.workerOptions = options.worker === true ? {} : options.worker;
+    }
+    if (options.relayer) {
+      if (this.mode !== 'mock') {
+        throw new InvalidInputError('A relayer transport can only be used in mock mode; the RelayerSDK makes its own HTTP calls.');
+      }
+      this.transport = toRelayerTransport(options.relayer);
+    }
+    this.permits = options.permits ?? getDefaultPermitManager();
+    this.decryptScheduler = new DecryptScheduler(
+      (pairs, contractAddresses, signer, permitOptions) => this.userDecrypt(pairs, contractAddresses, signer, permitOptions),
+      options.decryptScheduler,
+      async (contractAddresses, signer) => {
+        const userSigner = signer ?? this.signer;
+        if (!userSigner) return undefined;
+        return this.permits.findPermit(this.chainId, await userSigner.getAddress(), contractAddresses);
+      }
+    );
+    this.signerOption = options.signer;
+    this.aclCheck = options.aclCheck ?? true;
+  }
+
+  get isInitialized(): boolean {
+    return this.instance !== null;
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  /**
+   * Signer the client was created with (Node.js), connected to its RPC provider once initialized
+   */
+  getSigner(): ethers.Signer | undefined {
+    return this.signer;
+  }
+
+  /**
+   * Create the underlying RelayerSDK instance (once per client)
+   */
+  async initialize() {
+    if (this.instance) return this.instance;
+    if (!this.initializing) {
+      const event = { chainId: this.chainId, mode: this.mode };
+      const elapsed = startTimer();
+      fhevmEvents.emit('init:start', event);
+
+      this.initializing = this.createInstance().then((instance) => {
+        this.instance = instance;
+        fhevmEvents.emit('init:end', { ...event, durationMs: elapsed(), ok: true });
+        return instance;
+      }, (error) => {
+        fhevmEvents.emit('init:end', { ...event, durationMs: elapsed(), ok: false, errorCode: toFhevmError(error).code });
+        throw error;
+      }).finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
+
+  private createInstance(): Promise<any> {
+    if (this.mode === 'mock') {
+      if (this.signerOption) {
+        const rpcProvider = typeof this.provider === 'object'
+          ? new ethers.BrowserProvider(this.provider)
+          : new ethers.JsonRpcProvider(this.provider ?? DEFAULT_MOCK_RPC_URL);
+        this.signer = resolveSigner(this.signerOption, rpcProvider);
+      }
+      return createMockFheInstance(this.provider, this.chainId, this.transport);
+    }
+    const environment = this.environment ?? (this.isBrowserProvider() ? 'browser' : 'node');
+    return environment === 'browser' ? this.initializeBrowserInstance() : this.initializeNodeInstance();
+  }
+
+  private isBrowserProvider(): boolean {
+    return typeof window !== 'undefined' && this.provider !== undefined && typeof this.provider !== 'string';
+  }
+
+  /**
+   * Initialize FHEVM instance for browser environment
+   */
+  private async initializeBrowserInstance() {
+    assertBrowserEnvironment('The browser RelayerSDK');
+    const network = this.provider;
+    if (!network) {
+      throw new ProviderNotFoundError();
+    }
+
+    // Check for both uppercase and lowercase versions of RelayerSDK
+    let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
+
+    if (!sdk) {
+      throw new UnsupportedEnvironmentError('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+    }
+
+    const { initSDK, createInstance } = sdk;
+
+    // Keep the params that loaded, so the worker gets the same (already verified) WASM
+    let wasmParams: Record<string, any> | undefined;
+    await loadFheWasm(async (params) => {
+      await initSDK(params);
+      wasmParams = params;
+    }, this.wasmOptions);
+
+    const config = { ...toRelayerConfig(this.network), ...this.instanceConfig, network };
+
+    try {
+      if (!this.workerOptions) return await createInstance(config);
+
+      const starting = this.startWorker(network as Exclude<FhevmProvider, string>, wasmParams, config);
+      let instance;
+      try {
+        instance = await createInstance(config);
+      } catch (err) {
+        (await starting)?.terminate();
+        throw err;
+      }
+      const worker = await starting;
+      return worker ? withFheWorker(instance, worker) : instance;
+    } catch (err) {
+      logger.error('FHEVM browser instance creation failed:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Start the FHE worker, or return null so the instance runs on the main thread:
+   * a blocked SDK bundle or CSP must not fail the whole initialization
+   */
+  private async startWorker(network: Exclude<FhevmProvider, string>, wasmParams: Record<string, any> | undefined, config: Record<string, any>): Promise<FheWorker | null> {
+    let worker: FheWorker | undefined;
+    try {
+      worker = new FheWorker(network, this.workerOptions);
+      await worker.init(wasmParams, config);
+      return worker;
+    } catch (err) {
+      worker?.terminate();
+      logger.warn('⚠️ FHE worker failed to start, running encryption on the main thread:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Initialize FHEVM instance for Node.js environment
+   * REAL FUNCTIONALITY - uses actual RelayerSDK
+   */
+  private async initializeNodeInstance() {
+    if (typeof this.provider !== 'string') {
+      throw new ProviderNotFoundError('An RPC URL is required in Node.js. Pass the RPC URL as the client provider.');
+    }
+
+    try {
+      const provider = new ethers.JsonRpcProvider(this.provider);
+      this.signer = resolveSigner(this.signerOption, provider);
+      return await createNodeFheInstance(provider, this.chainId, this.signer, {
+        ...toRelayerConfig(this.network),
+        ...this.instanceConfig,
+      });
+    } catch (err) {
+      logger.error('FHEVM Node.js instance creation failed:', err);
+      throw err;
+    }
+  }
+
+  private requireInstance() {
+    if (!this.instance) throw new FhevmNotInitializedError();
+    return this.instance;
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+   * Calls made within a short window are sent as one batch, and concurrent calls
+   * for the same handle share a request (see decryptScheduler).
+   * Reuses a stored permit for this contract when one is still valid.
+   * The signer defaults to the client's own signer (Node.js).
+   * Aborting drops the handle from its batch once no other caller waits on it.
+   * A batch already sent to the real relayer is not cancelled: the RelayerSDK
+   * keeps polling and the abort only discards the result.
+   */
+  async decryptValue(
+    encryptedBytes: string,
+    contractAddress: string,
+    signer?: any,
+    options?: PermitRequestOptions & FhevmOperationOptions
+  ): Promise<number> {
+    logger.info('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
+    assertHandleChain(encryptedBytes, this.chainId);
+    const userSigner = signer ?? this.signer;
+    // Fail here rather than skip the ACL check and fail later in the batch
+    if (!userSigner) {
+      throw new InvalidInputError('User decryption needs a signer. Pass one to this call or create the client with a signer.');
+    }
+    const pairs = [{ handle: encryptedBytes, contractAddress }];
+    await raceAbort(this.preflightAcl(async (acl) => checkUserDecryptAccess(acl, pairs, await userSigner.getAddress())), options?.signal);
+    const value = await this.decryptScheduler.decrypt({ handle: encryptedBytes, contractAddress }, signer, options);
+    return Number(value);
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values using EIP-712 user decryption
+   * With the real relayer an abort only discards the result; the RelayerSDK keeps polling.
+   */
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer?: any,
+    options?: PermitRequestOptions & FhevmOperationOptions
+  ): Promise<Record<string, number>> {
+    logger.info('🔐 Using EIP-712 batch user decryption for handles:', handles);
+    const handleContractPairs = handles.map(handle => ({
+      handle,
+      contractAddress: contractAddress,
+    }));
+    const result = await this.userDecrypt(handleContractPairs, [contractAddress], signer, options);
+
+    // Convert result to numbers
+    const decryptedValues: Record<string, number> = {};
+    for (const handle of handles) {
+      decryptedValues[handle] = Number(result[handle]);
+    }
+
+    return decryptedValues;
+  }
+
+  /**
+   * Decrypt handles that belong to several contracts
+   * Pairs are grouped into the fewest permits (one signature each), split to
+   * fit relayer limits, and all results are merged into one map keyed by handle.
+   * Aborting stops before the next request; one already sent to the real relayer
+   * keeps polling and its result is discarded.
+   */
+  async batchDecryptPairs(
+    pairs: HandleContractPair[],
+    signer?: any,
+    options?: Pick<PermitRequestOptions, 'durationDays'> & FhevmOperationOptions
+  ): Promise<Record<string, ClearValue>> {
+    logger.info(`🔐 Using EIP-712 cross-contract user decryption for ${pairs.length} handle(s)`);
+
+    const merged: Record<string, ClearValue> = {};
+    for (const batch of planUserDecryptBatches(pairs)) {
+      for (const request of batch.requests) {
+        throwIfAborted(options?.signal);
+        const result = await this.userDecrypt(request, batch.contractAddresses, signer, options);
+        Object.assign(merged, result);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * ACL report for user decryption: may the user and each contract decrypt their handles?
+   */
+  async checkDecryptAccess(pairs: HandleContractPair[], userAddress: string): Promise<AclReport> {
+    return checkUserDecryptAccess(this.requireAcl(), pairs, userAddress);
+  }
+
+  /**
+   * ACL report for public decryption: was each handle made publicly decryptable?
+   */
+  async checkPublicDecryptAccess(handles: string[]): Promise<AclReport> {
+    return checkPublicDecryptAccess(this.requireAcl(), handles);
+  }
+
+  // ACL contract of the client's network, read through its own RPC or wallet
+  private getAcl(): AclReader | null {
+    if (this.acl === undefined) {
+      const provider = this.provider;
+      let runner: ethers.ContractRunner | null | undefined = this.signer?.provider;
+      if (!runner && typeof provider === 'object') {
+        runner = new ethers.BrowserProvider(provider);
+      } else if (!runner && (typeof provider === 'string' || this.mode === 'mock')) {
+        // staticNetwork: an unreachable node fails the call instead of retrying forever
+        runner = new ethers.JsonRpcProvider(typeof provider === 'string' ? provider : DEFAULT_MOCK_RPC_URL, this.chainId, { staticNetwork: true });
+      }
+      this.acl = runner ? getAclContract(runner, this.network) : null;
+    }
+    return this.acl;
+  }
+
+  private requireAcl(): AclReader {
+    const acl = this.getAcl();
+    if (!acl) throw new ProviderNotFoundError('ACL checks need a provider. Create the client with a wallet or RPC URL.');
+    return acl;
+  }
+
+  /**
+   * Fail with AclNotAllowedError when the ACL denies the decryption. The check is
+   * advisory: if the ACL cannot be read, the relayer still enforces it.
+   */
+  private async preflightAcl(check: (acl: AclReader) => Promise<AclReport>): Promise<void> {
+    const acl = this.aclCheck ? this.getAcl() : null;
+    if (!acl) return;
+
+    let report: AclReport;
+    try {
+      report = await check(acl);
+    } catch (err) {
+      logger.warn('⚠️ ACL pre-flight check skipped, could not read the ACL contract:', err);
+      return;
+    }
+    assertAclAllowed(report);
+  }
+
+  private async userDecrypt(
+    handleContractPairs: HandleContractPair[],
+    contractAddresses: string[],
+    signer?: any,
+    options?: PermitRequestOptions & FhevmOperationOptions
+  ): Promise<Record<string, any>> {
+    const fhe = this.requireInstance();
+    throwIfAborted(options?.signal);
+    // Handles from another chain would only fail at the relayer
+    for (const pair of handleContractPairs) assertHandleChain(pair.handle, this.chainId);
+
+    const userSigner = signer ?? this.signer;
+    if (!userSigner) {
+      throw new InvalidInputError('User decryption needs a signer. Pass one to this call or create the client with a signer.');
+    }
+
+    const handles = handleContractPairs.map((pair) => pair.handle);
+    return this.trackDecrypt('user', handles, async () => {
+      const permit = await raceAbort(this.permits.getPermit(fhe, this.chainId, userSigner, contractAddresses, options), options?.signal);
+
+      reportProgress(options, 'user-decrypt', 'requesting');
+      const relayer = await bindRelayerSignal(fhe, options?.signal);
+      return await raceAbort(relayer.userDecrypt(
+        handleContractPairs,
+        permit.privateKey,
+        permit.publicKey,
+        permit.signature,
+        permit.contractAddresses,
+        permit.userAddress,
+        permit.startTimestamp.toString(),
+        permit.durationDays.toString()
+      ), options?.signal);
+    });
+  }
+
+  /**
+   * Run a decryption with start/end events; relayer/network failures, wallet
+   * rejections and ACL denials get typed errors
+   */
+  private async trackDecrypt<T>(kind: 'user' | 'public', handles: string[], run: () => Promise<T>): Promise<T> {
+    const event = { chainId: this.chainId, kind, handles: redactHandles(handles) };
+    const elapsed = startTimer();
+    fhevmEvents.emit('decrypt:start', event);
+
+    try {
+      const result = await run();
+      fhevmEvents.emit('decrypt:end', { ...event, durationMs: elapsed(), ok: true });
+      return result;
+    } catch (error) {
+      const fhevmError = toFhevmError(error);
+      reportRelayerError(fhevmError, kind === 'user' ? 'USER_DECRYPT' : 'PUBLIC_DECRYPT', this.chainId);
+      fhevmEvents.emit('decrypt:end', { ...event, durationMs: elapsed(), ok: false, errorCode: fhevmError.code });
+      throw fhevmError;
+    }
+  }
+
+  /**
+   * Encrypt values using FHEVM (one 8-bit input per digit)
+   */
+  async encryptValue(
+    contractAddress: string,
+    address: string,
+    plainDigits: number[],
+    options?: FhevmOperationOptions
+  ) {
+    if (!this.instance) throw new FhevmNotInitializedError("FHEVM not initialized");
+    const relayer = await bindRelayerSignal(this.instance, options?.signal);
+
+    const inputHandle = relayer.createEncryptedInput(contractAddress, address);
+    for (const d of plainDigits) {
+      inputHandle.add8(d);
+    }
+
+    return trackEncrypt(inputHandle, { chainId: this.chainId, contractAddress, types: plainDigits.map(() => 'euint8') }, options);
+  }
+
+  /**
+   * Start a typed encrypted input: chain .bool()/.u8()/.../.address() then .encrypt()
+   */
+  encryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+    return new EncryptedInputBuilder(this.requireInstance(), contractAddress, userAddress, this.chainId);
+  }
+
+  /**
+   * Create encrypted input for contract interaction (matches showcase API)
+   */
+  async createEncryptedInput(contractAddress: string, userAddress: string, value: number, options?: FhevmOperationOptions) {
+    const fhe = await bindRelayerSignal(this.requireInstance(), options?.signal);
+
+    logger.info(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
+
+    const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
+    inputHandle.add32(value);
+    const result = await trackEncrypt(inputHandle, { chainId: this.chainId, contractAddress, types: ['euint32'] }, options);
+
+    logger.info('✅ Encrypted input created successfully');
+    logger.debug('🔍 Encrypted result structure:', result);
+
+    // The FHEVM SDK returns an object with handles and inputProof
+    // We need to extract the correct values for the contract
+    if (result && typeof result === 'object') {
+      // If result has handles array, use the first handle
+      if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
+        return {
+          encryptedData: result.handles[0],
+          proof: result.inputProof
+        };
+      }
+      // If result has encryptedData and proof properties
+      else if (result.encryptedData && result.proof) {
+        return {
+          encryptedData: result.encryptedData,
+          proof: result.proof
+        };
+      }
+      // Fallback: use the result as-is
+      else {
+        return {
+          encryptedData: result,
+          proof: result
+        };
+      }
+    }
+
+    // If result is not an object, use it directly
+    return {
+      encryptedData: result,
+      proof: result
+    };
+  }
+
+  /**
+   * Public decryption (v0.9) returning clear values plus the ABI-encoded values
+   * and proof that `FHE.checkSignatures` expects.
+   * Each handle's FHE type is read from its type byte; when `types` is given the
+   * handles must match it. Handles must belong to the client's chain.
+   * With the real relayer an abort only discards the result; the RelayerSDK keeps polling.
+   */
+  async publicDecryptV09(handles: string[], types?: FheInputType[], options?: FhevmOperationOptions): Promise<PublicDecryptResult> {
+    const fhe = this.requireInstance();
+    throwIfAborted(options?.signal);
+
+    if (types && types.length !== handles.length) {
+      throw new InvalidInputError(`Got ${types.length} FHE type(s) for ${handles.length} handle(s)`);
+    }
+    // Wrong chains and types fail here, before the relayer round-trip
+    const fheTypes = handles.map((handle, i) => {
+      const parsed = assertHandleChain(handle, this.chainId);
+      return types ? assertHandleType(handle, types[i]).fheType : parsed.fheType;
+    });
+
+    await raceAbort(this.preflightAcl((acl) => checkPublicDecryptAccess(acl, handles)), options?.signal);
+    logger.info('🔐 Starting v0.9 public decryption for handles:', handles);
+
+    return this.trackDecrypt('public', handles, async () => {
+      if (typeof fhe.publicDecrypt !== 'function') {
+        throw new FhevmNotInitializedError('This FHEVM instance does not support public decryption');
+      }
+
+      reportProgress(options, 'public-decrypt', 'requesting');
+      const relayer = await bindRelayerSignal(fhe, options?.signal);
+      const result = await raceAbort<any>(relayer.publicDecrypt(handles), options?.signal);
+
+      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
+        return result;
+      }
+
+      if (result === null || typeof result !== 'object') {
+        throw new RelayerUnavailableError(`Invalid publicDecrypt result: expected an object, got ${result === null ? 'null' : typeof result}`);
+      }
+
+      // Older result shape: a plain handle -> value map without proof
+      logger.warn('⚠️ Using fallback decryption for v0.9 compatibility');
+
+      const clearValues: Record<string, ClearValue> = {};
+      handles.forEach((handle, i) => {
+        if (!(handle in result)) {
+          throw new RelayerUnavailableError(`Invalid publicDecrypt result structure: no value for ${handle}`);
+        }
+        clearValues[handle] = toClearValue(result[handle], fheTypes[i]);
+      });
+
+      const abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+        fheTypes.map((type) => FHE_ABI_TYPES[type]),
+        handles.map((handle) => clearValues[handle])
+      );
+
+      return {
+        clearValues,
+        abiEncodedClearValues,
+        decryptionProof: '0x'
+      };
+    });
+  }
+}
+
+// Registry: chain ID -> provider -> client
+const clients = new Map<number, Map<FhevmProvider | undefined, FhevmClient>>();
+// Options each registered client was created with, defaults filled in
+const clientOptions = new WeakMap<FhevmClient, Record<string, unknown>>();
+let defaultClient: FhevmClient | null = null;
+
+// Every option besides chainId and provider that changes how a client behaves
+function comparableOptions(options: FhevmClientOptions): Record<string, unknown> {
+  return {
+    mode: options.mode ?? 'relayer',
+    environment: options.environment,
+    network: options.network ?? getNetworkPreset(options.chainId),
+    instanceConfig: options.instanceConfig ?? {},
+    relayer: options.relayer,
+    wasm: options.wasm,
+    worker: options.worker === true ? {} : options.worker || undefined,
+    permits: options.permits,
+    decryptScheduler: options.decryptScheduler,
+    signer: options.signer,
+    aclCheck: options.aclCheck ?? true,
+  };
+}
+
+// Plain objects and arrays compare by value; signers, transports and functions by identity
+function sameOption(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => sameOption(item, b[i]));
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => sameOption(a[key], b[key]));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Get the client registered for (chainId, provider), creating it on first use.
+ * Throws ClientConfigConflictError when that client was created with other
+ * options; call removeFhevmClient first to replace it.
+ */
+export function getFhevmClient(options: FhevmClientOptions): FhevmClient {
+  let byProvider = clients.get(options.chainId);
+  if (!byProvider) {
+    byProvider = new Map();
+    clients.set(options.chainId, byProvider);
+  }
+
+  const requested = comparableOptions(options);
+  let client = byProvider.get(options.provider);
+  if (!client) {
+    client = new FhevmClient(options);
+    byProvider.set(options.provider, client);
+    clientOptions.set(client, requested);
+    return client;
+  }
+
+  const existing = clientOptions.get(client)!;
+  const conflicts = Object.keys(requested).filter((key) => !sameOption(existing[key], requested[key]));
+  if (conflicts.length > 0) {
+    throw new ClientConfigConflictError(
+      `A client for chain ${options.chainId} and this provider already exists with a different ${conflicts.join(', ')}. ` +
+      'Remove it with removeFhevmClient() before creating one with new options.'
+    );
+  }
+  return client;
+}
+
+/**
+ * All registered clients, in creation order per chain
+ */
+export function listFhevmClients(): FhevmClient[] {
+  return [...clients.values()].flatMap((byProvider) => [...byProvider.values()]);
+}
+
+/**
+ * Drop a client from the registry (and unset it as default)
+ */
+export function removeFhevmClient(client: FhevmClient): void {
+  const byProvider = clients.get(client.chainId);
+  if (byProvider?.get(client.provider) === client) {
+    byProvider.delete(client.provider);
+    if (byProvider.size === 0) clients.delete(client.chainId);
+  }
+  if (defaultClient === client) defaultClient = null;
+}
+
+/**
+ * The client used by the free functions (initializeFheInstance, decryptValue, ...)
+ */
+export function getDefaultFhevmClient(): FhevmClient | null {
+  return defaultClient;
+}
+
+export function setDefaultFhevmClient(client: FhevmClient | null): void {
+  defaultClient = client;
+}
@@ -0,0 +1,154 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmClient } from './client.js';
+import { withEncryptedInputs } from './contracts.js';
+import { InvalidInputError } from './errors.js';
+import { setLogLevel } from './logger.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+const RECIPIENT = '0x3333333333333333333333333333333333333333';
+
+const HANDLE_1 = `0x${'01'.repeat(32)}`;
+const HANDLE_2 = `0x${'02'.repeat(32)}`;
+const PROOF = '0xab';
+
+const encrypted = (name: string, type: string) => ({ name, type: 'bytes32', internalType: `externalE${type}` });
+const plain = (name: string, type: string) => ({ name, type, internalType: type });
+const inputProof = { name: 'inputProof', type: 'bytes', internalType: 'bytes' };
+const fn = (name: string, inputs: object[]) => ({ type: 'function', name, inputs, outputs: [], stateMutability: 'nonpayable' });
+
+const ABI = [
+  fn('deposit', [encrypted('amount', 'uint32'), inputProof, plain('memo', 'string')]),
+  fn('transfer', [plain('to', 'address'), encrypted('amount', 'uint64'), encrypted('private', 'bool'), inputProof]),
+  fn('vote', [encrypted('choice', 'bool'), inputProof]),
+  fn('vote', [encrypted('choice', 'bool'), plain('proposal', 'uint256'), inputProof]),
+  fn('pause', []),
+] as const;
+const iface = new ethers.Interface(ABI);
+
+// Client whose RelayerSDK input records the added values and returns one handle per value
+function fakeClient() {
+  const added: unknown[][] = [];
+  const client = new FhevmClient({ chainId: 31337, mode: 'mock', aclCheck: false });
+  (client as any).instance = {
+    createEncryptedInput: (contractAddress: string, userAddress: string) => {
+      added.push(['bind', contractAddress, userAddress]);
+      const input: Record<string, unknown> = {
+        encrypt: async () => ({
+          handles: added.slice(1).map((_, i) => new Uint8Array(32).fill(i + 1)),
+          inputProof: ethers.getBytes(PROOF),
+        }),
+      };
+      for (const method of ['addBool', 'add32', 'add64']) {
+        input[method] = (value: unknown) => added.push([method, value]);
+      }
+      return input;
+    },
+  };
+  return { client, added };
+}
+
+// Signer-backed contract that records the transactions it sends
+function fakeContract(abi: readonly object[] = ABI, runner: object = {}) {
+  const sendTransaction = vi.fn(async (tx: ethers.TransactionRequest) => ({ hash: `0x${'aa'.repeat(32)}`, ...tx }));
+  const contract = new ethers.Contract(CONTRACT, abi as ethers.InterfaceAbi, {
+    provider: { getFeeData: async () => new ethers.FeeData(null, 1n, 1n) },
+    getAddress: async () => USER,
+    sendTransaction,
+    call: async () => '0x',
+    estimateGas: async () => 21_000n,
+    ...runner,
+  } as unknown as ethers.ContractRunner);
+  return { contract, sendTransaction };
+}
+
+function sentCall(sendTransaction: ReturnType<typeof fakeContract>['sendTransaction']) {
+  const tx = sendTransaction.mock.calls[0][0];
+  return iface.parseTransaction({ data: tx.data as string })!;
+}
+
+describe('withEncryptedInputs', () => {
+  beforeAll(() => {
+    setLogLevel('silent');
+  });
+
+  it('wraps only the functions that take encrypted inputs', () => {
+    const wrapped = withEncryptedInputs(fakeContract().contract, ABI, fakeClient().client);
+
+    expect(Object.keys(wrapped).sort()).toEqual(['deposit', 'transfer', 'vote']);
+  });
+
+  it('encrypts the clear values for the signer and puts the proof in the inputProof slot', async () => {
+    const { client, added } = fakeClient();
+    const { contract, sendTransaction } = fakeContract();
+
+    await withEncryptedInputs(contract, ABI, client).deposit(42, 'hello');
+
+    expect(added).toEqual([['bind', CONTRACT, USER], ['add32', 42]]);
+    expect(sentCall(sendTransaction).args.toArray()).toEqual([HANDLE_1, PROOF, 'hello']);
+  });
+
+  it('splices several handles around the plain arguments in ABI order', async () => {
+    const { client, added } = fakeClient();
+    const { contract, sendTransaction } = fakeContract();
+
+    await withEncryptedInputs(contract, ABI, client).transfer(RECIPIENT, 7n, true);
+
+    expect(added.slice(1)).toEqual([['add64', 7n], ['addBool', true]]);
+    expect(sentCall(sendTransaction).args.toArray()).toEqual([RECIPIENT, HANDLE_1, HANDLE_2, PROOF]);
+  });
+
+  it('picks the overload by argument count', async () => {
+    const { client } = fakeClient();
+    const { contract, sendTransaction } = fakeContract();
+    const wrapped = withEncryptedInputs(contract, ABI, client);
+
+    await wrapped.vote(true);
+    await wrapped.vote(false, 3n);
+
+    const [short, long] = sendTransaction.mock.calls.map(([tx]) => iface.parseTransaction({ data: tx.data as string })!);
+    expect(short.signature).toBe('vote(bytes32,bytes)');
+    expect(long.signature).toBe('vote(bytes32,uint256,bytes)');
+    expect(long.args.toArray()).toEqual([HANDLE_1, 3n, PROOF]);
+  });
+
+  it('passes trailing overrides through to the transaction', async () => {
+    const { client } = fakeClient();
+    const { contract, sendTransaction } = fakeContract();
+
+    await withEncryptedInputs(contract, ABI, client).deposit(1, 'memo', { gasLimit: 100_000n });
+
+    expect(sendTransaction.mock.calls[0][0].gasLimit).toBe(100_000n);
+  });
+
+  it('simulates with the same spliced arguments', async () => {
+    const { client } = fakeClient();
+    const { contract, sendTransaction } = fakeContract();
+
+    const simulation = await withEncryptedInputs(contract, ABI, client).transfer.simulate(RECIPIENT, 7n, false);
+
+    expect(simulation.args).toEqual([RECIPIENT, HANDLE_1, HANDLE_2, PROOF]);
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects an argument count no overload takes', async () => {
+    const wrapped = withEncryptedInputs(fakeContract().contract, ABI, fakeClient().client);
+
+    await expect((wrapped.vote as any)()).rejects.toThrow(/vote expects 1 or 2 argument\(s\) besides the input proof, got 0/);
+  });
+
+  it('needs a contract connected to a signer', async () => {
+    const { contract } = fakeContract(ABI, { getAddress: undefined });
+
+    await expect(withEncryptedInputs(contract, ABI, fakeClient().client).vote(true)).rejects.toBeInstanceOf(InvalidInputError);
+  });
+
+  it.each([
+    ['no inputProof parameter', [fn('bad', [encrypted('value', 'uint32')])]],
+    ['two inputProof parameters', [fn('bad', [encrypted('value', 'uint32'), inputProof, inputProof])]],
+    ['an unsupported encrypted type', [fn('bad', [encrypted('value', 'uint4'), inputProof])]],
+  ])('rejects an ABI with %s', (_, abi) => {
+    expect(() => withEncryptedInputs(fakeContract([]).contract, abi)).toThrow(InvalidInputError);
+  });
+});
@@ -4,40 +4,131 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { buildEncryptedInput, createEncryptedInput } from './fhevm.js';
+import type { FhevmClient } from './client.js';
+import { InvalidInputError, ProviderNotFoundError, TransactionFailedError } from './errors.js';
+import { FHE_INPUT_BITS } from './input.js';
+import type { FheInputType } from './input.js';
+import { logger } from './logger.js';
+import { simulateCall } from './simulate.js';
+import type { SimulationResult } from './simulate.js';
+import { TransactionTracker } from './transactions.js';
+import type { ReplacementReason } from './transactions.js';
 
-export class FhevmContract {
-  private contract: ethers.Contract;
+/** Encrypted value and proof, as returned by createEncryptedInput */
+export interface EncryptedParams {
+  encryptedData: ethers.BytesLike;
+  proof: ethers.BytesLike;
+}
+
+/** Keys of a contract type that are ABI methods (typechain `TypedContractMethod` or ethers `BaseContractMethod`) */
+export type ContractMethodName<T> = {
+  [K in keyof T]: T[K] extends { fragment: ethers.FunctionFragment; staticCall: (...args: any[]) => any } ? K : never
+}[keyof T] & string;
+
+/** Arguments of a contract method, including the optional trailing overrides */
+export type ContractMethodArgs<T, K extends keyof T> =
+  T[K] extends { send: (...args: infer A) => any } ? A : any[];
+
+/** Value a contract method returns from staticCall */
+export type ContractMethodResult<T, K extends keyof T> =
+  T[K] extends { staticCall: (...args: any[]) => Promise<infer R> } ? R : any;
+
+// Arguments after the leading encrypted value and proof; any[] for an untyped contract
+type ArgsAfterEncrypted<A extends readonly unknown[]> =
+  number extends A['length'] ? any[] : A extends readonly [unknown, unknown, ...infer R] ? R : never;
+
+/**
+ * Contract wrapper; generic over a typechain contract type so method names,
+ * arguments and results are checked against the generated bindings
+ *
+ * @example
+ * const contract = new FhevmContract(UniversalFHEAdapter__factory.connect(address, signer), address)
+ */
+export class FhevmContract<T extends ethers.BaseContract = ethers.Contract> {
+  private contract: T;
   private address: string;
+  private client?: FhevmClient;
+  private tracker?: TransactionTracker;
 
-  constructor(contract: ethers.Contract, address: string) {
+  /**
+   * @param client - FHEVM client to encrypt with; defaults to the default client
+   * @param tracker - follows encryptAndCallAndWait transactions; defaults to one on the contract's provider
+   */
+  constructor(contract: T, address: string, client?: FhevmClient, tracker?: TransactionTracker) {
     this.contract = contract;
     this.address = address;
+    this.client = client;
+    this.tracker = tracker;
+  }
+
+  /** The wrapped contract, with its typed methods, events and filters */
+  get raw(): T {
+    return this.contract;
   }
 
   /**
    * Encrypt and call contract function
    */
-  async encryptAndCall(
-    functionName: string,
-    encryptedParams: any,
-    ...additionalParams: any[]
+  async encryptAndCall<K extends ContractMethodName<T>>(
+    functionName: K,
+    encryptedParams: EncryptedParams,
+    ...additionalParams: ArgsAfterEncrypted<ContractMethodArgs<T, K>>
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    return this.contract.getFunction(functionName)(encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
   }
 
   /**
-   * Encrypt and call with wait
+   * Dry-run the call with staticCall and estimateGas before asking the wallet to sign.
+   * Throws ContractRevertError when it would revert; `send()` on the result submits it.
    */
-  async encryptAndCallAndWait(
-    functionName: string,
-    encryptedParams: any,
-    ...additionalParams: any[]
+  async simulate<K extends ContractMethodName<T>>(
+    functionName: K,
+    encryptedParams: EncryptedParams,
+    ...additionalParams: ArgsAfterEncrypted<ContractMethodArgs<T, K>>
+  ): Promise<SimulationResult<ContractMethodResult<T, K>>> {
+    return simulateCall(this.contract, this.contract.getFunction(functionName), [encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams]);
+  }
+
+  /**
+   * Encrypt and call, then follow the transaction with the tracker until it is final.
+   * A speed-up is followed to its replacement; a revert, a drop, or a cancel or
+   * other replacement throws TransactionFailedError.
+   */
+  async encryptAndCallAndWait<K extends ContractMethodName<T>>(
+    functionName: K,
+    encryptedParams: EncryptedParams,
+    ...additionalParams: ArgsAfterEncrypted<ContractMethodArgs<T, K>>
   ): Promise<ethers.TransactionReceipt> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new InvalidInputError(`Waiting for ${functionName} needs a contract connected to a provider`);
+    }
+    this.tracker ??= new TransactionTracker(provider);
+
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
+    // Set when the call's nonce went to something other than a speed-up of it
+    let superseded: ReplacementReason | undefined;
+    const final = await this.tracker.track(tx, {
+      label: functionName,
+      onUpdate: (update) => {
+        if (update.status === 'replaced' && update.replacementReason !== 'repriced') superseded = update.replacementReason;
+      },
+    });
+
+    if (superseded) {
+      throw new TransactionFailedError(`Transaction ${tx.hash} (${functionName}) was ${superseded} by ${final.hash}`, final, superseded);
+    }
+    if (final.status === 'reverted') {
+      throw new TransactionFailedError(`Transaction ${final.hash} (${functionName}) reverted in block ${final.blockNumber}`, final);
+    }
+    if (final.status === 'dropped') {
+      throw new TransactionFailedError(`Transaction ${final.hash} (${functionName}) was dropped by the node`, final);
+    }
+
+    const receipt = await provider.getTransactionReceipt(final.hash);
     if (!receipt) {
-      throw new Error("Transaction receipt is null");
+      throw new ProviderNotFoundError(`Transaction ${final.hash} is confirmed but the node returned no receipt`);
     }
     return receipt;
   }
@@ -45,7 +136,222 @@ export class FhevmContract {
   /**
    * Create encrypted input for contract
    */
-  async createEncryptedInput(userAddress: string, value: number) {
+  async createEncryptedInput(userAddress: string, value: number): Promise<EncryptedParams> {
+    if (this.client) return this.client.createEncryptedInput(this.address, userAddress, value);
     return createEncryptedInput(this.address, userAddress, value);
   }
 }
+
+type AbiParameter = ethers.JsonFragmentType;
+type AbiFragment = ethers.JsonFragment;
+
+/** ABI input holding an encrypted value (`externalEuint32`, `externalEbool`, ...) */
+type ExternalInput = { readonly internalType: `externalE${string}` };
+/** ABI input holding the proof shared by every encrypted value of the call */
+type ProofInput = { readonly type: 'bytes'; readonly name: 'inputProof' };
+
+/** Clear value accepted in place of an `externalE*` argument */
+export type ClearInput<T extends string = string> =
+  T extends 'bool' ? boolean | number | bigint
+  : T extends 'address' ? string
+  : number | bigint;
+
+type EncryptedFunctionName<TAbi extends readonly AbiFragment[]> = {
+  [I in keyof TAbi]: TAbi[I] extends { readonly type: 'function'; readonly name: infer N extends string; readonly inputs: readonly (infer P)[] }
+    ? Extract<P, ExternalInput> extends never ? never : N
+    : never
+}[number];
+
+type FunctionInputs<TAbi extends readonly AbiFragment[], K> =
+  Extract<TAbi[number], { readonly type: 'function'; readonly name: K }> extends { readonly inputs: infer P extends readonly AbiParameter[] } ? P : [];
+
+// Typechain argument tuple without the trailing overrides; any[] for an untyped contract
+type TypechainArgs<M, N extends number> = M extends (...args: infer A) => any
+  ? [Extract<A, { length: N }>] extends [never] ? any[] : Extract<A, { length: N }>
+  : any[];
+
+type Slot<P, X> =
+  P extends ExternalInput ? { arg: ClearInput<P['internalType'] extends `externalE${infer T}` ? T : string> }
+  : P extends ProofInput ? { proof: true }
+  : { arg: X };
+
+type WithoutProof<S extends readonly unknown[]> = S extends readonly [infer H, ...infer R]
+  ? H extends { arg: infer X } ? [X, ...WithoutProof<R>] : WithoutProof<R>
+  : [];
+
+type EncryptedArgs<P extends readonly AbiParameter[], A> = WithoutProof<{ [I in keyof P]: Slot<P[I], A[I & keyof A]> }>;
+
+/**
+ * Arguments of an encrypting call: the typechain arguments with clear values in
+ * the `externalE*` slots, the `inputProof` argument left out, and optional overrides
+ */
+export type EncryptedCallArgs<T, TAbi extends readonly AbiFragment[], K extends string> =
+  EncryptedArgs<FunctionInputs<TAbi, K>, TypechainArgs<K extends keyof T ? T[K] : never, FunctionInputs<TAbi, K>['length']>> extends infer V extends unknown[]
+    ? V | [...V, ethers.Overrides]
+    : never;
+
+export type EncryptedCallResult<T, K extends string> =
+  K extends keyof T ? T[K] extends (...args: any[]) => infer R ? R : Promise<any> : Promise<any>;
+
+/** Encrypting call, plus a dry run with the same encrypted inputs */
+export interface EncryptedMethod<A extends unknown[], R, S> {
+  (...args: A): R;
+  simulate(...args: A): Promise<SimulationResult<S>>;
+}
+
+/**
+ * Methods of a contract taking `externalE*` arguments, called with clear values.
+ * Falls back to untyped methods when the ABI is not a literal (e.g. imported JSON).
+ */
+export type EncryptedContract<T, TAbi extends readonly AbiFragment[]> =
+  string extends NonNullable<TAbi[number]['type']>
+    ? Record<string, EncryptedMethod<any[], Promise<any>, any>>
+    : {
+      readonly [K in EncryptedFunctionName<TAbi>]: EncryptedMethod<
+        EncryptedCallArgs<T, TAbi, K>,
+        EncryptedCallResult<T, K>,
+        K extends keyof T ? ContractMethodResult<T, K> : any
+      >
+    };
+
+type ArgumentSlot =
+  | { kind: 'plain' }
+  | { kind: 'encrypted'; type: FheInputType }
+  | { kind: 'proof' };
+
+interface EncryptedFunction {
+  fragment: ethers.FunctionFragment;
+  slots: ArgumentSlot[];
+  /** Arguments the caller passes: every input but the proof */
+  arity: number;
+}
+
+function toFheInputType(internalType: string, functionName: string): FheInputType {
+  const type = `e${internalType.slice('externalE'.length).toLowerCase()}` as FheInputType;
+  if (!(type in FHE_INPUT_BITS)) {
+    throw new InvalidInputError(`Unsupported encrypted input ${internalType} in ${functionName}`);
+  }
+  return type;
+}
+
+/**
+ * Find the `externalE*` inputs of a function and its `bytes inputProof`;
+ * null for functions without encrypted inputs
+ */
+function scanFunction(abiFragment: AbiFragment): EncryptedFunction | null {
+  const inputs = abiFragment.inputs ?? [];
+  const name = abiFragment.name ?? '';
+  if (!inputs.some((input) => input.internalType?.startsWith('externalE'))) return null;
+
+  const slots = inputs.map((input): ArgumentSlot => {
+    if (input.internalType?.startsWith('externalE')) return { kind: 'encrypted', type: toFheInputType(input.internalType, name) };
+    if (input.type === 'bytes' && input.name === 'inputProof') return { kind: 'proof' };
+    return { kind: 'plain' };
+  });
+  const proofs = slots.filter((slot) => slot.kind === 'proof').length;
+  if (proofs !== 1) {
+    throw new InvalidInputError(`${name} takes encrypted inputs but ${proofs === 0 ? 'no' : proofs} "bytes inputProof" parameter(s)`);
+  }
+
+  return { fragment: ethers.FunctionFragment.from(abiFragment), slots, arity: slots.length - 1 };
+}
+
+/**
+ * Wrap a contract so functions taking `externalEuintN` / `externalEbool` /
+ * `externalEaddress` arguments accept clear values. The values are encrypted
+ * together under one input proof, spliced into their ABI positions with the
+ * proof in the `inputProof` slot, and the method is called.
+ *
+ * Pass the typechain factory's ABI (declared `as const`) for fully typed methods;
+ * a plain JSON ABI works too, with untyped methods.
+ *
+ * @param contract - typechain or ethers contract, connected to the signer whose address the inputs are bound to
+ * @param abi - the contract's JSON ABI; `internalType` is needed to find the encrypted inputs
+ * @param client - FHEVM client to encrypt with; defaults to the default client
+ *
+ * @example
+ * const adapter = withEncryptedInputs(UniversalFHEAdapter__factory.connect(address, signer), UniversalFHEAdapter__factory.abi)
+ * await adapter.createBusinessData(id, name, 42, 1n, 2n, description)  // 42 is encrypted as euint32
+ * const { fee, send } = await adapter.createBusinessData.simulate(id, name, 42, 1n, 2n, description)
+ */
+export function withEncryptedInputs<T extends ethers.BaseContract, const TAbi extends readonly AbiFragment[]>(
+  contract: T,
+  abi: TAbi,
+  client?: FhevmClient
+): EncryptedContract<T, TAbi> {
+  const overloads = new Map<string, EncryptedFunction[]>();
+  for (const abiFragment of abi) {
+    if (abiFragment.type !== 'function' || !abiFragment.name) continue;
+    const scanned = scanFunction(abiFragment);
+    if (!scanned) continue;
+    overloads.set(abiFragment.name, [...(overloads.get(abiFragment.name) ?? []), scanned]);
+  }
+
+  const wrapper: Record<string, EncryptedMethod<any[], Promise<any>, any>> = {};
+  for (const [name, candidates] of overloads) {
+    // Encrypt the clear values and return the method with its full argument list
+    const prepare = async (args: any[]) => {
+      // An exact match wins, so an overload's extra argument is not taken for another's overrides
+      const fn = candidates.find((candidate) => args.length === candidate.arity)
+        ?? candidates.find((candidate) => args.length === candidate.arity + 1 && isOverrides(args[candidate.arity]));
+      if (!fn) {
+        const expected = candidates.map((candidate) => candidate.arity).join(' or ');
+        throw new InvalidInputError(`${name} expects ${expected} argument(s) besides the input proof, got ${args.length}`);
+      }
+      const overrides = args.length > fn.arity ? [args[fn.arity]] : [];
+      const callArgs = await encryptArguments(contract, fn, args.slice(0, fn.arity), client);
+      return { method: contract.getFunction(fn.fragment.format()), args: [...callArgs, ...overrides] };
+    };
+
+    const call = async (...args: any[]) => {
+      const prepared = await prepare(args);
+      return prepared.method(...prepared.args);
+    };
+    wrapper[name] = Object.assign(call, {
+      simulate: async (...args: any[]) => {
+        const prepared = await prepare(args);
+        return simulateCall(contract, prepared.method, prepared.args);
+      },
+    });
+  }
+  return wrapper as EncryptedContract<T, TAbi>;
+}
+
+function isOverrides(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Encrypt the clear values of a call and return the full argument list
+ */
+async function encryptArguments(
+  contract: ethers.BaseContract,
+  fn: EncryptedFunction,
+  args: any[],
+  client?: FhevmClient
+): Promise<any[]> {
+  const runner = contract.runner as ethers.Signer | null;
+  if (typeof runner?.getAddress !== 'function') {
+    throw new InvalidInputError(`${fn.fragment.name} needs a contract connected to a signer to bind the encrypted inputs to`);
+  }
+  const [contractAddress, userAddress] = await Promise.all([contract.getAddress(), runner.getAddress()]);
+
+  const builder = client ? client.encryptedInput(contractAddress, userAddress) : buildEncryptedInput(contractAddress, userAddress);
+  let next = 0;
+  fn.slots.forEach((slot) => {
+    if (slot.kind === 'proof') return;
+    if (slot.kind === 'encrypted') builder.add(slot.type, args[next]);
+    next++;
+  });
+
+  logger.info(`📝 Preparing ${fn.fragment.name} with ${builder.getTypes().length} encrypted argument(s)`);
+  const { handles, inputProof } = await builder.encrypt();
+
+  let arg = 0;
+  let handle = 0;
+  return fn.slots.map((slot) => {
+    if (slot.kind === 'proof') return inputProof;
+    const value = args[arg++];
+    return slot.kind === 'encrypted' ? handles[handle++] : value;
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Runtime Environment - Universal SDK
+ * Picks the browser or Node.js code path and guards browser-only APIs, so a
+ * server render never starts the Node.js relayer path by accident.
+ */
+
+import { UnsupportedEnvironmentError } from './errors.js';
+
+/**
+ * - browser: injected wallet, RelayerSDK from the CDN, WASM loaded by the page
+ * - node: JSON-RPC URL, bundled Node.js RelayerSDK
+ */
+export type FhevmEnvironment = 'browser' | 'node';
+
+/**
+ * True in a browser (or Web Worker host page); false in Node.js, including server rendering
+ */
+export function isBrowserEnvironment(): boolean {
+  return typeof window !== 'undefined' && typeof document !== 'undefined';
+}
+
+export function detectEnvironment(): FhevmEnvironment {
+  return isBrowserEnvironment() ? 'browser' : 'node';
+}
+
+/**
+ * Throw UnsupportedEnvironmentError when a browser-only API runs outside a browser
+ *
+ * @param api - what was called, for the error message
+ */
+export function assertBrowserEnvironment(api: string): void {
+  if (isBrowserEnvironment()) return;
+  throw new UnsupportedEnvironmentError(
+    `${api} needs a browser, but it ran on the server. In a server-rendered app, call it from an effect or event handler; in Node.js, use environment: 'node' with an rpcUrl.`
+  );
+}
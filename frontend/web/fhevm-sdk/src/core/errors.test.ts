@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  AclNotAllowedError,
+  ContractRevertError,
+  FhevmAbortError,
+  FhevmError,
+  InvalidHandleError,
+  InvalidInputError,
+  ProofVerificationError,
+  RelayerUnavailableError,
+  UnsupportedEnvironmentError,
+  UserRejectedSignatureError,
+  isFhevmError,
+  toFhevmError,
+} from './errors.js';
+import { FheWorker } from './worker.js';
+
+function relayerError(status?: number) {
+  return Object.assign(new Error('Relayer request failed'), { cause: { code: 'RELAYER_FETCH_ERROR', status } });
+}
+
+describe('toFhevmError', () => {
+  it('passes FhevmErrors through unchanged', () => {
+    const error = new InvalidInputError('bad value');
+
+    expect(toFhevmError(error)).toBe(error);
+  });
+
+  it.each([
+    ['an AbortError', Object.assign(new Error('aborted'), { name: 'AbortError' }), FhevmAbortError],
+    ['an ethers ACTION_REJECTED', Object.assign(new Error('rejected'), { code: 'ACTION_REJECTED' }), UserRejectedSignatureError],
+    ['an EIP-1193 4001', { code: 4001, message: 'denied' }, UserRejectedSignatureError],
+    ['a wrapped 4001', Object.assign(new Error('could not coalesce'), { info: { error: { code: 4001 } } }), UserRejectedSignatureError],
+    ['a "User denied" message', new Error('MetaMask: User denied message signature'), UserRejectedSignatureError],
+    ['a relayer 5xx', relayerError(503), RelayerUnavailableError],
+    ['a relayer error without status', relayerError(), RelayerUnavailableError],
+    ['a fetch failure', new TypeError('fetch failed'), RelayerUnavailableError],
+    ['a refused connection', new Error('connect ECONNREFUSED 127.0.0.1:3000'), RelayerUnavailableError],
+    ['an ACL denial', new Error('User 0x12 is not authorized to user decrypt handle 0x34'), AclNotAllowedError],
+    ['a malformed handle', new Error('Handle 0x12 is not of valid length'), InvalidHandleError],
+    ['a KMS signature failure', new Error('KMS signers threshold is not reached'), ProofVerificationError],
+    ['an input proof failure', Object.assign(new Error('bad proof'), { cause: { operation: 'INPUT_PROOF' } }), ProofVerificationError],
+  ])('maps %s', (_, error, expected) => {
+    const mapped = toFhevmError(error);
+
+    expect(mapped).toBeInstanceOf(expected);
+    expect(mapped.cause).toBe(error);
+  });
+
+  it('leaves relayer 4xx answers to the other rules', () => {
+    expect(toFhevmError(relayerError(400)).code).toBe('UNKNOWN');
+  });
+
+  it('keeps the decoded revert of a CALL_EXCEPTION', () => {
+    const iface = new ethers.Interface(['error InsufficientBalance(uint256 available)']);
+    const data = iface.encodeErrorResult('InsufficientBalance', [5]);
+    const error = Object.assign(new Error('execution reverted'), {
+      code: 'CALL_EXCEPTION',
+      data,
+      reason: null,
+      revert: { name: 'InsufficientBalance', signature: 'InsufficientBalance(uint256)', args: [5n] },
+    });
+
+    const mapped = toFhevmError(error);
+
+    expect(mapped).toBeInstanceOf(ContractRevertError);
+    expect(mapped).toMatchObject({ errorName: 'InsufficientBalance', errorSignature: 'InsufficientBalance(uint256)', errorArgs: [5n], data });
+  });
+
+  it('decodes a Solidity panic code', () => {
+    const error = Object.assign(new Error('panic'), { code: 'CALL_EXCEPTION', revert: { name: 'Panic', signature: 'Panic(uint256)', args: [0x11n] } });
+
+    expect(toFhevmError(error)).toMatchObject({ panicCode: 0x11n, errorName: undefined });
+  });
+
+  it('wraps anything else as UNKNOWN', () => {
+    expect(toFhevmError('boom')).toMatchObject({ code: 'UNKNOWN', message: 'boom' });
+    expect(toFhevmError(undefined)).toMatchObject({ code: 'UNKNOWN', message: 'Unknown FHEVM error' });
+  });
+});
+
+describe('typed SDK errors', () => {
+  it('are FhevmErrors with a stable code', () => {
+    const error = new RelayerUnavailableError();
+
+    expect(error).toBeInstanceOf(FhevmError);
+    expect(isFhevmError(error, 'RELAYER_UNAVAILABLE')).toBe(true);
+    expect(isFhevmError(error, 'ABORTED')).toBe(false);
+  });
+
+  it('reports worker mode outside the browser as UNSUPPORTED_ENVIRONMENT', () => {
+    expect(() => new FheWorker({ request: async () => null } as any)).toThrow(UnsupportedEnvironmentError);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * FHEVM SDK Errors - Universal SDK
+ * Typed errors with stable `code` fields. The original error is kept on
+ * `cause`, so callers can branch on the class or code instead of matching
+ * message substrings.
+ */
+
+import type { ReplacementReason, TrackedTransaction } from './transactions.js';
+
+export type FhevmErrorCode =
+  | 'FHEVM_NOT_INITIALIZED'
+  | 'PROVIDER_NOT_FOUND'
+  | 'UNSUPPORTED_NETWORK'
+  | 'UNSUPPORTED_ENVIRONMENT'
+  | 'RELAYER_UNAVAILABLE'
+  | 'USER_REJECTED_SIGNATURE'
+  | 'ACL_NOT_ALLOWED'
+  | 'INVALID_HANDLE'
+  | 'INVALID_INPUT'
+  | 'PROOF_VERIFICATION_FAILED'
+  | 'WASM_INTEGRITY_FAILED'
+  | 'ABORTED'
+  | 'CONTRACT_REVERTED'
+  | 'CLIENT_CONFIG_CONFLICT'
+  | 'TRANSACTION_FAILED'
+  | 'UNKNOWN';
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'FhevmError';
+    this.code = code;
+    this.cause = options?.cause;
+  }
+}
+
+export class FhevmNotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() first.', options?: { cause?: unknown }) {
+    super('FHEVM_NOT_INITIALIZED', message, options);
+    this.name = 'FhevmNotInitializedError';
+  }
+}
+
+export class ProviderNotFoundError extends FhevmError {
+  constructor(message = 'Ethereum provider not found. Please install MetaMask or connect a wallet.', options?: { cause?: unknown }) {
+    super('PROVIDER_NOT_FOUND', message, options);
+    this.name = 'ProviderNotFoundError';
+  }
+}
+
+export class UnsupportedNetworkError extends FhevmError {
+  constructor(message = 'This chain has no FHEVM network preset.', options?: { cause?: unknown }) {
+    super('UNSUPPORTED_NETWORK', message, options);
+    this.name = 'UnsupportedNetworkError';
+  }
+}
+
+export class UnsupportedEnvironmentError extends FhevmError {
+  constructor(message = 'This API is not available in the current environment.', options?: { cause?: unknown }) {
+    super('UNSUPPORTED_ENVIRONMENT', message, options);
+    this.name = 'UnsupportedEnvironmentError';
+  }
+}
+
+export class RelayerUnavailableError extends FhevmError {
+  constructor(message = 'Decryption service is temporarily unavailable. Please try again later.', options?: { cause?: unknown }) {
+    super('RELAYER_UNAVAILABLE', message, options);
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+export class UserRejectedSignatureError extends FhevmError {
+  constructor(message = 'The request was rejected in the wallet.', options?: { cause?: unknown }) {
+    super('USER_REJECTED_SIGNATURE', message, options);
+    this.name = 'UserRejectedSignatureError';
+  }
+}
+
+export class AclNotAllowedError extends FhevmError {
+  constructor(message = 'Not allowed to decrypt this handle.', options?: { cause?: unknown }) {
+    super('ACL_NOT_ALLOWED', message, options);
+    this.name = 'AclNotAllowedError';
+  }
+}
+
+export class InvalidHandleError extends FhevmError {
+  constructor(message = 'Invalid ciphertext handle.', options?: { cause?: unknown }) {
+    super('INVALID_HANDLE', message, options);
+    this.name = 'InvalidHandleError';
+  }
+}
+
+export class InvalidInputError extends FhevmError {
+  constructor(message = 'Invalid encrypted input value.', options?: { cause?: unknown }) {
+    super('INVALID_INPUT', message, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class ProofVerificationError extends FhevmError {
+  constructor(message = 'Proof or signature verification failed.', options?: { cause?: unknown }) {
+    super('PROOF_VERIFICATION_FAILED', message, options);
+    this.name = 'ProofVerificationError';
+  }
+}
+
+export class WasmIntegrityError extends FhevmError {
+  constructor(message = 'WASM file does not match its expected SHA-256 hash.', options?: { cause?: unknown }) {
+    super('WASM_INTEGRITY_FAILED', message, options);
+    this.name = 'WasmIntegrityError';
+  }
+}
+
+export class FhevmAbortError extends FhevmError {
+  constructor(message = 'The operation was aborted.', options?: { cause?: unknown }) {
+    super('ABORTED', message, options);
+    this.name = 'FhevmAbortError';
+  }
+}
+
+export class ClientConfigConflictError extends FhevmError {
+  constructor(message = 'A client for this chain and provider already exists with other options.', options?: { cause?: unknown }) {
+    super('CLIENT_CONFIG_CONFLICT', message, options);
+    this.name = 'ClientConfigConflictError';
+  }
+}
+
+export class TransactionFailedError extends FhevmError {
+  /** Final state of the last transaction in the replacement chain */
+  readonly transaction: TrackedTransaction;
+  /** reverted, dropped, or replaced by a cancel or an unrelated transaction */
+  readonly status: 'reverted' | 'dropped' | 'replaced';
+  readonly replacementReason?: ReplacementReason;
+
+  constructor(message: string, transaction: TrackedTransaction, replacementReason?: ReplacementReason, options?: { cause?: unknown }) {
+    super('TRANSACTION_FAILED', message, options);
+    this.name = 'TransactionFailedError';
+    this.transaction = transaction;
+    this.status = replacementReason ? 'replaced' : transaction.status === 'dropped' ? 'dropped' : 'reverted';
+    this.replacementReason = replacementReason;
+  }
+}
+
+/** What a reverted contract call reported, decoded against the contract ABI */
+export interface ContractRevertDetails {
+  /** Message of require(..., "reason") / revert("reason") */
+  reason?: string;
+  /** Custom error name, e.g. InvalidKMSSignatures */
+  errorName?: string;
+  /** Custom error signature, e.g. InvalidKMSSignatures() */
+  errorSignature?: string;
+  errorArgs?: unknown[];
+  /** Solidity panic code (0x11 arithmetic overflow, 0x32 out-of-bounds index, ...) */
+  panicCode?: bigint;
+  /** Raw revert data, when the node returned it */
+  data?: string;
+}
+
+export class ContractRevertError extends FhevmError {
+  readonly reason?: string;
+  readonly errorName?: string;
+  readonly errorSignature?: string;
+  readonly errorArgs?: unknown[];
+  readonly panicCode?: bigint;
+  readonly data?: string;
+
+  constructor(message = 'The contract call reverted.', details: ContractRevertDetails = {}, options?: { cause?: unknown }) {
+    super('CONTRACT_REVERTED', message, options);
+    this.name = 'ContractRevertError';
+    this.reason = details.reason;
+    this.errorName = details.errorName;
+    this.errorSignature = details.errorSignature;
+    this.errorArgs = details.errorArgs;
+    this.panicCode = details.panicCode;
+    this.data = details.data;
+  }
+}
+
+export function isFhevmError(error: unknown, code?: FhevmErrorCode): error is FhevmError {
+  return error instanceof FhevmError && (code === undefined || error.code === code);
+}
+
+function messageOf(error: any): string {
+  return typeof error?.message === 'string' ? error.message : String(error ?? '');
+}
+
+function isUserRejection(error: any): boolean {
+  // ethers v6 wraps wallet rejections as ACTION_REJECTED; EIP-1193 uses 4001
+  if (error?.code === 'ACTION_REJECTED' || error?.code === 4001) return true;
+  if (error?.info?.error?.code === 4001 || error?.error?.code === 4001) return true;
+  return /user (rejected|denied)/i.test(messageOf(error));
+}
+
+function isRelayerUnavailable(error: any): boolean {
+  const causeCode = error?.cause?.code;
+  if (typeof causeCode === 'string' && causeCode.startsWith('RELAYER_')) {
+    const status = error.cause.status;
+    // 4xx answers mean the relayer is up but refused the request
+    return typeof status !== 'number' || status >= 500;
+  }
+  const message = messageOf(error);
+  return message.includes('Failed to fetch')
+    || message.includes('NetworkError')
+    || message.includes('ECONNREFUSED')
+    || message.includes('fetch failed');
+}
+
+/**
+ * Map any error thrown by the wallet, RelayerSDK or chain onto the SDK error classes.
+ * FhevmErrors pass through unchanged; unrecognised errors become code UNKNOWN.
+ */
+export function toFhevmError(error: unknown): FhevmError {
+  if (error instanceof FhevmError) return error;
+
+  const message = messageOf(error);
+  const options = { cause: error };
+
+  if ((error as any)?.name === 'AbortError') {
+    return new FhevmAbortError(undefined, options);
+  }
+  if (isUserRejection(error)) {
+    return new UserRejectedSignatureError(undefined, options);
+  }
+  if (isRelayerUnavailable(error)) {
+    return new RelayerUnavailableError(undefined, options);
+  }
+  if (/is not authorized to user decrypt|not allowed for public decryption|ACLNotAllowed|SenderNotAllowed/.test(message)) {
+    return new AclNotAllowedError(message, options);
+  }
+  if (/Handle .* is not of valid (length|type)|Invalid ciphertext handle|Unsupported handle type/.test(message)) {
+    return new InvalidHandleError(message, options);
+  }
+  if (/signers threshold is not reached|InvalidKMSSignatures|InvalidSigner|not in the list of (KMS|coprocessor) signers/.test(message)
+    || (error as any)?.cause?.operation === 'INPUT_PROOF') {
+    return new ProofVerificationError(message, options);
+  }
+  // ethers has already decoded the revert against the contract ABI
+  if ((error as any)?.code === 'CALL_EXCEPTION') {
+    const { reason, revert, data } = error as any;
+    const custom = revert && revert.name !== 'Error' && revert.name !== 'Panic';
+    return new ContractRevertError(message || undefined, {
+      reason: reason ?? undefined,
+      errorName: custom ? revert.name : undefined,
+      errorSignature: custom ? revert.signature : undefined,
+      errorArgs: custom ? [...revert.args] : undefined,
+      panicCode: revert?.name === 'Panic' ? BigInt(revert.args[0]) : undefined,
+      data: data ?? undefined,
+    }, options);
+  }
+  return new FhevmError('UNKNOWN', message || 'Unknown FHEVM error', options);
+}
@@ -0,0 +1,145 @@
+/**
+ * SDK Lifecycle Events - Universal SDK
+ * Typed events for initialization, WASM loading, encryption, decryption,
+ * relayer failures and permit reuse or signing. Handles are always redacted, so
+ * listeners can forward payloads to analytics as they are.
+ */
+
+import { shortHandle } from './handles.js';
+import { logger } from './logger.js';
+import type { FhevmError, FhevmErrorCode } from './errors.js';
+import type { FheInputType } from './input.js';
+import type { FheRuntimeInfo } from './wasm.js';
+
+/** Fields shared by every `*:end` event */
+export interface OperationEndFields {
+  durationMs: number;
+  ok: boolean;
+  /** Set when ok is false */
+  errorCode?: FhevmErrorCode;
+}
+
+export interface EncryptEventFields {
+  chainId?: number;
+  contractAddress: string;
+  types: FheInputType[];
+}
+
+export interface DecryptEventFields {
+  chainId: number;
+  kind: 'user' | 'public';
+  /** Redacted handles (0x1234…7a690400) */
+  handles: string[];
+}
+
+export interface FhevmEvents {
+  'init:start': { chainId: number; mode: string };
+  'init:end': { chainId: number; mode: string } & OperationEndFields;
+  'wasm:source': FheRuntimeInfo;
+  'encrypt:start': EncryptEventFields;
+  'encrypt:end': EncryptEventFields & OperationEndFields & { handles: string[] };
+  'decrypt:start': DecryptEventFields;
+  'decrypt:end': DecryptEventFields & OperationEndFields;
+  'relayer:error': {
+    chainId?: number;
+    operation: string;
+    code: FhevmErrorCode;
+    /** Message with any handles redacted */
+    message: string;
+    requestId?: string;
+    status?: number;
+    /** True when the transport will try again */
+    retrying: boolean;
+  };
+  'permit:reuse': { chainId: number; userAddress: string; contractAddresses: string[]; expiresAt: number };
+  'permit:signed': { chainId: number; userAddress: string; contractAddresses: string[]; expiresAt: number };
+}
+
+export type FhevmEventType = keyof FhevmEvents;
+export type FhevmEventListener<K extends FhevmEventType> = (event: FhevmEvents[K]) => void;
+
+export class FhevmEventEmitter {
+  private listeners = new Map<FhevmEventType, Set<(event: any) => void>>();
+
+  /**
+   * Subscribe to an event; returns the unsubscribe function
+   */
+  on<K extends FhevmEventType>(type: K, listener: FhevmEventListener<K>): () => void {
+    const set = this.listeners.get(type) ?? new Set();
+    set.add(listener);
+    this.listeners.set(type, set);
+    return () => this.off(type, listener);
+  }
+
+  once<K extends FhevmEventType>(type: K, listener: FhevmEventListener<K>): () => void {
+    const off = this.on(type, (event) => {
+      off();
+      listener(event);
+    });
+    return off;
+  }
+
+  off<K extends FhevmEventType>(type: K, listener: FhevmEventListener<K>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  emit<K extends FhevmEventType>(type: K, event: FhevmEvents[K]): void {
+    for (const listener of [...(this.listeners.get(type) ?? [])]) {
+      try {
+        listener(event);
+      } catch (err) {
+        // A broken listener must not break the SDK call that emitted
+        logger.warn(`⚠️ FHEVM "${type}" listener threw:`, err);
+      }
+    }
+  }
+}
+
+/** Event bus shared by every client */
+export const fhevmEvents = new FhevmEventEmitter();
+
+export function onFhevmEvent<K extends FhevmEventType>(type: K, listener: FhevmEventListener<K>): () => void {
+  return fhevmEvents.on(type, listener);
+}
+
+// Codes that mean the relayer (or the KMS behind it) answered badly or not at all
+const RELAYER_ERROR_CODES: FhevmErrorCode[] = ['RELAYER_UNAVAILABLE', 'ACL_NOT_ALLOWED', 'PROOF_VERIFICATION_FAILED'];
+
+/**
+ * Emit `relayer:error` for a final failure that came from the relayer
+ */
+export function reportRelayerError(error: FhevmError, operation: string, chainId?: number): void {
+  const cause = error.cause as any;
+  const fromRelayer = typeof cause?.code === 'string' && cause.code.startsWith('RELAYER_');
+  if (!fromRelayer && !RELAYER_ERROR_CODES.includes(error.code)) return;
+
+  fhevmEvents.emit('relayer:error', {
+    chainId,
+    operation: cause?.operation ?? operation,
+    code: error.code,
+    message: redactMessage(error.message),
+    requestId: cause?.requestId,
+    status: cause?.status,
+    retrying: false,
+  });
+}
+
+/**
+ * Start a stopwatch; the returned function gives the elapsed milliseconds
+ */
+export function startTimer(): () => number {
+  const clock = typeof performance !== 'undefined' ? performance : Date;
+  const startedAt = clock.now();
+  return () => Math.round(clock.now() - startedAt);
+}
+
+/**
+ * Redact handles (anything bytes32-shaped) for event payloads
+ */
+export function redactHandles(handles: Array<string | Uint8Array>): string[] {
+  return handles.map((handle) => shortHandle(handle));
+}
+
+export function redactMessage(message: string): string {
+  return message.replace(/0x[0-9a-fA-F]{64}/g, (handle) => shortHandle(handle));
+}
@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmClient, getDefaultFhevmClient, removeFhevmClient, setDefaultFhevmClient } from './client.js';
+import { FhevmAbortError, UnsupportedEnvironmentError, UnsupportedNetworkError } from './errors.js';
+import { initializeFheInstance, verifyPublicDecryption } from './fhevm.js';
+import { setLogLevel } from './logger.js';
+import { fhevmStore } from './store.js';
+
+// Injected wallet on the given chain
+function installWallet(chainIdHex: string) {
+  const request = vi.fn(async ({ method }: { method: string }) => {
+    if (method === 'eth_chainId') return chainIdHex;
+    throw new Error(`Unexpected wallet call ${method}`);
+  });
+  window.ethereum = { request } as any;
+  return request;
+}
+
+describe('initializeFheInstance in the browser', () => {
+  beforeAll(() => {
+    setLogLevel('silent');
+  });
+
+  afterEach(() => {
+    const client = getDefaultFhevmClient();
+    if (client) removeFhevmClient(client);
+    delete window.ethereum;
+  });
+
+  it('fails fast when the wallet is on a chain without a preset', async () => {
+    const request = installWallet('0x1');
+
+    await expect(initializeFheInstance()).rejects.toBeInstanceOf(UnsupportedNetworkError);
+    expect(request).toHaveBeenCalledWith({ method: 'eth_chainId' });
+  });
+
+  it("uses the preset for the wallet's chain", async () => {
+    installWallet('0x7a69');
+
+    // No RelayerSDK script in this page, so initialization stops after picking the chain
+    await expect(initializeFheInstance()).rejects.toBeInstanceOf(UnsupportedEnvironmentError);
+    expect(fhevmStore.getSnapshot().instance.chainId).toBe(31337);
+  });
+
+  it('keeps an explicit chainId without asking the wallet', async () => {
+    const request = installWallet('0x7a69');
+
+    await expect(initializeFheInstance({ chainId: 1 })).rejects.toBeInstanceOf(UnsupportedNetworkError);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyPublicDecryption', () => {
+  // euint32 input handle on chain 31337
+  const handle = ethers.concat([`0x${'11'.repeat(21)}`, '0x00', ethers.toBeHex(31337, 8), '0x04', '0x00']);
+  const result = { clearValues: { [handle]: 7n }, abiEncodedClearValues: '0x07', decryptionProof: '0x99' };
+
+  beforeAll(() => {
+    setLogLevel('silent');
+    const client = new FhevmClient({ chainId: 31337, mode: 'mock', aclCheck: false });
+    (client as any).instance = { publicDecrypt: async () => result };
+    setDefaultFhevmClient(client);
+  });
+
+  afterAll(() => {
+    setDefaultFhevmClient(null);
+  });
+
+  it('sends the clear values and proof for verification and waits for the receipt', async () => {
+    const verify = vi.fn(async () => ({ wait: async () => ({ status: 1 }) }));
+    const phases: string[] = [];
+
+    const verified = await verifyPublicDecryption([handle], verify, undefined, { onProgress: ({ phase }) => phases.push(phase) });
+
+    expect(verify).toHaveBeenCalledWith('0x07', '0x99');
+    expect(verified).toEqual({ decryptionResult: result, transactionReceipt: { status: 1 } });
+    expect(phases).toContain('verifying');
+  });
+
+  it('sends no verification transaction once aborted', async () => {
+    const controller = new AbortController();
+    const verify = vi.fn();
+    controller.abort();
+
+    await expect(verifyPublicDecryption([handle], verify, undefined, { signal: controller.signal })).rejects.toBeInstanceOf(FhevmAbortError);
+    expect(verify).not.toHaveBeenCalled();
+  });
+});
@@ -2,395 +2,232 @@
  * Universal FHEVM Core - Environment-Aware SDK
  * Supports both browser and Node.js environments
  * Preserves all existing browser functionality
+ *
+ * The free functions below operate on the default FhevmClient; use
+ * getFhevmClient() directly to work with several chains or providers.
  */
 
-import { ethers } from "ethers";
+import { getDefaultFhevmClient, getFhevmClient, setDefaultFhevmClient } from './client.js';
+import { SEPOLIA_CHAIN_ID } from './networks.js';
+import type { FhevmNetworkPreset } from './networks.js';
+import type { WasmLoadOptions } from './wasm.js';
+import type { FheWorkerOptions } from './worker.js';
+import type { HttpRelayerTransportOptions, RelayerTransport } from './transport.js';
+import type { FhevmMode, PublicDecryptResult } from './client.js';
+import type { FhevmSignerLike } from './node.js';
+import { HARDHAT_CHAIN_ID } from './mock.js';
+import type { PermitRequestOptions } from './permits.js';
+import type { HandleContractPair } from './batch.js';
+import type { FheInputType } from './input.js';
+import { raceAbort, reportProgress, throwIfAborted } from './operation.js';
+import type { FhevmOperationOptions } from './operation.js';
+import { assertBrowserEnvironment, detectEnvironment, isBrowserEnvironment } from './environment.js';
+import type { FhevmEnvironment } from './environment.js';
+import { FhevmNotInitializedError, ProviderNotFoundError, toFhevmError } from './errors.js';
+import { fhevmStore } from './store.js';
+
+function requireDefaultClient() {
+  const client = getDefaultFhevmClient();
+  if (!client?.isInitialized) throw new FhevmNotInitializedError();
+  return client;
+}
 
-let fheInstance: any = null;
+export interface FhevmInitOptions {
+  rpcUrl?: string;
+  chainId?: number;
+  mode?: FhevmMode;
+  /** Code path to use; detected from `window`/`document` when omitted */
+  environment?: FhevmEnvironment;
+  signer?: FhevmSignerLike;
+  network?: FhevmNetworkPreset;
+  wasm?: WasmLoadOptions;
+  worker?: boolean | FheWorkerOptions;
+  relayer?: RelayerTransport | HttpRelayerTransportOptions;
+  /** Check the ACL before decryptValue and publicDecryptV09 (default true) */
+  aclCheck?: boolean;
+}
 
 /**
- * Initialize FHEVM instance for browser environment
+ * Initialize FHEVM instance - Environment-aware
+ * MAINTAINS BACKWARD COMPATIBILITY
+ *
+ * Pass `mode: 'mock'` to run against a local Hardhat node with the fhevm
+ * plugin instead of the Zama relayer (rpcUrl defaults to 127.0.0.1:8545).
+ * In Node.js, rpcUrl is required and `signer` (ethers Signer or private key)
+ * backs accounts, transactions and decryption permits.
+ * Contract addresses come from the preset for chainId, or from `network`.
+ * In the browser, chainId defaults to the wallet's chain (eth_chainId); a chain
+ * without a preset throws UnsupportedNetworkError. Elsewhere it defaults to
+ * Sepolia (Hardhat in mock mode).
+ * In the browser, `wasm` picks where the TFHE/KMS WASM files are loaded from,
+ * and `worker` moves encryption and keypair generation off the main thread.
+ * In mock mode, `relayer` sends relayer calls to a transport (e.g. the relayer stand-in).
+ * Without `environment`, a server render with no rpcUrl throws
+ * UnsupportedEnvironmentError instead of starting the Node.js path.
  */
-async function initializeBrowserFheInstance() {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
-  }
-
-  // Check for both uppercase and lowercase versions of RelayerSDK
-  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
-
-  if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
-  }
-
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
-
-  // Try to initialize SDK with CDN first (default behavior)
-  // If it fails (e.g., CORS error), fallback to local WASM files
-  try {
-    await initSDK(); // Try CDN first
-    console.log('✅ FHEVM SDK initialized with CDN');
-  } catch (cdnError) {
-    // If CDN fails (usually CORS), fallback to local WASM files
-    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
-    console.log('🔄 Trying local WASM files from public folder...');
-    await initSDK({
-      tfheParams: '/tfhe_bg.wasm',
-      kmsParams: '/kms_lib_bg.wasm'
-    });
-    console.log('✅ FHEVM SDK initialized with local WASM files');
+export async function initializeFheInstance(options?: FhevmInitOptions) {
+  const mode = options?.mode ?? 'relayer';
+  const network = options?.network;
+  const environment = options?.environment ?? detectEnvironment();
+  let chainId = options?.chainId ?? network?.chainId ?? (mode === 'mock' ? HARDHAT_CHAIN_ID : SEPOLIA_CHAIN_ID);
+
+  let client;
+  if (mode === 'mock') {
+    // Mock environment - explicit RPC URL wins over the injected wallet
+    const wallet = environment === 'browser' && isBrowserEnvironment() ? window.ethereum : undefined;
+    client = getFhevmClient({ chainId, mode, environment, provider: options?.rpcUrl ?? wallet, signer: options?.signer, network, relayer: options?.relayer, aclCheck: options?.aclCheck });
+  } else if (environment === 'browser') {
+    // Browser environment - use the injected wallet
+    assertBrowserEnvironment('Browser FHEVM initialization');
+    if (!window.ethereum) throw new ProviderNotFoundError();
+    if (options?.chainId === undefined && !network) {
+      // Pick the preset for the chain the wallet is on, not a fixed default
+      chainId = parseInt(await window.ethereum.request({ method: 'eth_chainId' }), 16);
+    }
+    client = getFhevmClient({ chainId, environment, provider: window.ethereum, network, wasm: options?.wasm, worker: options?.worker, aclCheck: options?.aclCheck });
+  } else {
+    // Node.js environment - use the RPC URL
+    if (!options?.environment && !options?.rpcUrl) {
+      assertBrowserEnvironment('initializeFheInstance() without an rpcUrl');
+    }
+    client = getFhevmClient({ chainId, environment, provider: options?.rpcUrl, signer: options?.signer, network, aclCheck: options?.aclCheck });
   }
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+  setDefaultFhevmClient(client);
 
-  try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM browser instance creation failed:', err);
-    throw err;
+  // Every adapter reads the default client's status from the shared store
+  if (!client.isInitialized) {
+    fhevmStore.setState({ instance: { status: 'loading', chainId, mode, error: null } });
   }
-}
-
-/**
- * Initialize FHEVM instance for Node.js environment
- * REAL FUNCTIONALITY - uses actual RelayerSDK
- */
-async function initializeNodeFheInstance(rpcUrl?: string) {
   try {
-    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
-    
-    // Use eval to prevent webpack from analyzing these imports
-    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
-    
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-    
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
-    
-    const config = { 
-      ...SepoliaConfig, 
-      network: eip1193Provider 
-    };
-    
-    fheInstance = await createInstance(config);
-    console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
+    const instance = await client.initialize();
+    fhevmStore.setState({ instance: { status: 'ready', instance, chainId, mode, error: null } });
+    return instance;
   } catch (err) {
-    console.error('FHEVM Node.js instance creation failed:', err);
-    throw err;
-  }
-}
-
-/**
- * Initialize FHEVM instance - Environment-aware
- * MAINTAINS BACKWARD COMPATIBILITY
- */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
-    // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
-  } else {
-    // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
+    const error = toFhevmError(err);
+    fhevmStore.setState({ instance: { status: 'error', instance: null, chainId, mode, error } });
+    throw error;
   }
 }
 
 export function getFheInstance() {
-  return fheInstance;
+  return getDefaultFhevmClient()?.getInstance() ?? null;
 }
 
 /**
  * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
  */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
-    
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer?: any,
+  options?: PermitRequestOptions & FhevmOperationOptions
+): Promise<number> {
+  return requireDefaultClient().decryptValue(encryptedBytes, contractAddress, signer, options);
 }
 
 /**
  * Batch decrypt multiple encrypted values using EIP-712 user decryption
  */
 export async function batchDecryptValues(
-  handles: string[], 
-  contractAddress: string, 
-  signer: any
+  handles: string[],
+  contractAddress: string,
+  signer?: any,
+  options?: PermitRequestOptions & FhevmOperationOptions
 ): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
-    }
+  return requireDefaultClient().batchDecryptValues(handles, contractAddress, signer, options);
+}
 
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+/**
+ * Batch decrypt handles from several contracts using as few EIP-712 permits as possible
+ */
+export async function batchDecryptPairs(
+  pairs: HandleContractPair[],
+  signer?: any,
+  options?: Pick<PermitRequestOptions, 'durationDays'> & FhevmOperationOptions
+): Promise<Record<string, bigint | boolean | string>> {
+  return requireDefaultClient().batchDecryptPairs(pairs, signer, options);
 }
 
 /**
  * Encrypt values using FHEVM
- * 
+ *
  * 📝 BIT SIZE SUPPORT:
  * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
  * than the default 32-bit, you can use the appropriate method:
  * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535) 
+ * - add16(value) - for 16-bit values (0-65535)
  * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
  * - add64(value) - for 64-bit values (0-18446744073709551615)
  * - add128(value) - for 128-bit values
  * - add256(value) - for 256-bit values
- * 
+ *
  * Example: If your contract expects 8-bit values, replace add32() with add8()
+ * To mix several types in one proof, use buildEncryptedInput() instead.
  */
 export async function encryptValue(
   contractAddress: string,
   address: string,
-  plainDigits: number[]
+  plainDigits: number[],
+  options?: FhevmOperationOptions
 ) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
+  const client = getDefaultFhevmClient();
+  if (!client?.isInitialized) throw new FhevmNotInitializedError("FHEVM not initialized");
+  return client.encryptValue(contractAddress, address, plainDigits, options);
+}
 
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
-  }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
+/**
+ * Typed encrypted input builder on the default client
+ *
+ * @example
+ * const { handles, inputProof } = await buildEncryptedInput(contract, user).u8(7).u64(1_000n).encrypt();
+ */
+export function buildEncryptedInput(contractAddress: string, userAddress: string) {
+  return requireDefaultClient().encryptedInput(contractAddress, userAddress);
 }
 
 /**
  * Create encrypted input for contract interaction (matches showcase API)
  */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-  
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-  
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
-    }
-  }
-  
-  // If result is not an object, use it directly
-  return {
-    encryptedData: result,
-    proof: result
-  };
+export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number, options?: FhevmOperationOptions) {
+  return requireDefaultClient().createEncryptedInput(contractAddress, userAddress, value, options);
 }
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
-  abiEncodedClearValues: string;
-  decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+/**
+ * Public decryption (v0.9); FHE types come from the handles unless `types` is given
+ */
+export async function publicDecryptV09(handles: string[], types?: FheInputType[], options?: FhevmOperationOptions): Promise<PublicDecryptResult> {
+  return requireDefaultClient().publicDecryptV09(handles, types, options);
+}
 
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
-    
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
-      
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
-      
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
-      
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
-      }
+/**
+ * Public decryption followed by the on-chain check of its proof: `verifyFunction`
+ * sends the contract call taking the ABI-encoded clear values and the proof,
+ * and its transaction is waited for
+ *
+ * @example
+ * await verifyPublicDecryption([handle], (values, proof) => contract.verifyDecryption(values, proof))
+ */
+export async function verifyPublicDecryption(
+  handles: string[],
+  verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>,
+  types?: FheInputType[],
+  options?: FhevmOperationOptions
+) {
+  const decryptionResult = await publicDecryptV09(handles, types, options);
 
-      if (handles.length === 1) {
+  // No verification transaction once the caller is gone
+  throwIfAborted(options?.signal);
+  reportProgress(options, 'public-decrypt', 'verifying');
+  const tx = await verifyFunction(
+    decryptionResult.abiEncodedClearValues,
+    decryptionResult.decryptionProof
+  );
 
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
+  const receipt = await raceAbort(tx.wait(), options?.signal);
 
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
-      }
-      
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
-    }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
-}
\ No newline at end of file
+  return {
+    decryptionResult,
+    transactionReceipt: receipt
+  };
+}
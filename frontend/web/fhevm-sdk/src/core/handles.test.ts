@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { InvalidHandleError } from './errors.js';
+import { assertHandleChain, assertHandleType, formatHandle, handleType, isHandle, parseHandle, shortHandle } from './handles.js';
+
+const HASH = '11'.repeat(21);
+
+function makeHandle({ index = 0, chainId = 31337, typeId = 4, version = 0 } = {}): string {
+  return ethers.concat([
+    `0x${HASH}`,
+    ethers.toBeHex(index, 1),
+    ethers.toBeHex(chainId, 8),
+    ethers.toBeHex(typeId, 1),
+    ethers.toBeHex(version, 1),
+  ]);
+}
+
+describe('parseHandle', () => {
+  it('decodes every field of an input handle', () => {
+    expect(parseHandle(makeHandle({ index: 2, chainId: 11155111, typeId: 5 }))).toEqual({
+      handle: makeHandle({ index: 2, chainId: 11155111, typeId: 5 }),
+      hashPrefix: `0x${HASH}`,
+      index: 2,
+      computed: false,
+      chainId: 11155111,
+      fheType: 'euint64',
+      typeId: 5,
+      version: 0,
+    });
+  });
+
+  it('marks handles with index 0xff as computed', () => {
+    const parsed = parseHandle(makeHandle({ index: 0xff }));
+
+    expect(parsed.computed).toBe(true);
+    expect(parsed.index).toBeNull();
+  });
+
+  it('accepts bytes and mixed-case hex, returning lowercase hex', () => {
+    const handle = makeHandle({ typeId: 7 });
+
+    expect(parseHandle(ethers.getBytes(handle)).handle).toBe(handle);
+    expect(parseHandle(handle.toUpperCase().replace('0X', '0x')).fheType).toBe('eaddress');
+  });
+
+  it.each([
+    ['a short value', '0x1234'],
+    ['a non-hex string', 'not a handle'],
+    ['the zero handle', ethers.ZeroHash],
+    ['an unknown type id', makeHandle({ typeId: 1 })],
+    ['another layout version', makeHandle({ version: 1 })],
+  ])('rejects %s', (_, handle) => {
+    expect(() => parseHandle(handle)).toThrow(InvalidHandleError);
+    expect(isHandle(handle)).toBe(false);
+  });
+});
+
+describe('handle assertions', () => {
+  const handle = makeHandle({ typeId: 0 });
+
+  it('checks the FHE type against one or several expected types', () => {
+    expect(handleType(handle)).toBe('ebool');
+    expect(assertHandleType(handle, ['euint8', 'ebool']).fheType).toBe('ebool');
+    expect(() => assertHandleType(handle, 'euint32')).toThrow(/is an ebool, expected euint32/);
+  });
+
+  it('checks the chain the handle was created on', () => {
+    expect(assertHandleChain(handle, 31337).chainId).toBe(31337);
+    expect(() => assertHandleChain(handle, 1)).toThrow(/belongs to chain 31337, but this client is on chain 1/);
+  });
+});
+
+describe('handle formatting', () => {
+  it('describes input and computed handles', () => {
+    expect(formatHandle(makeHandle())).toBe(`euint32 #0 on chain 31337 (0x1111…7a690400)`);
+    expect(formatHandle(makeHandle({ index: 0xff, typeId: 8 }))).toBe(`euint256 computed on chain 31337 (0x1111…7a690800)`);
+  });
+
+  it('leaves short values untouched', () => {
+    expect(shortHandle('0x1234')).toBe('0x1234');
+  });
+});
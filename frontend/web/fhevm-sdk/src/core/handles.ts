@@ -0,0 +1,154 @@
+/**
+ * Ciphertext Handle Inspection - Universal SDK
+ * Decodes the 32-byte handle layout (hash, index, chain ID, FHE type, version)
+ * so wrong chains and types are caught locally instead of at the relayer.
+ *
+ * | bytes 0-20 | byte 21 | bytes 22-29 | byte 30  | byte 31 |
+ * | hash       | index   | chain ID    | FHE type | version |
+ */
+
+import { ethers } from "ethers";
+import { InvalidHandleError } from './errors.js';
+import type { FheInputType } from './input.js';
+
+/** Handle layout version this SDK understands */
+export const FHEVM_HANDLE_VERSION = 0;
+
+/** Index byte of handles produced by an FHE operation rather than an input */
+const COMPUTED_HANDLE_INDEX = 0xff;
+
+// Type discriminant (byte 30) -> FHE type
+const HANDLE_FHE_TYPES: Record<number, FheInputType> = {
+  0: 'ebool',
+  2: 'euint8',
+  3: 'euint16',
+  4: 'euint32',
+  5: 'euint64',
+  6: 'euint128',
+  7: 'eaddress',
+  8: 'euint256',
+};
+
+/** Handles come back from `encrypt()` as bytes and from contracts as hex */
+export type HandleLike = string | Uint8Array;
+
+export interface ParsedHandle {
+  /** Lowercase 0x-prefixed bytes32 */
+  handle: string;
+  /** First 21 bytes: hash of the ciphertext (inputs) or of the operation (computed) */
+  hashPrefix: string;
+  /** Position in the encrypted input; null for computed handles */
+  index: number | null;
+  computed: boolean;
+  chainId: number;
+  fheType: FheInputType;
+  /** Raw type byte */
+  typeId: number;
+  version: number;
+}
+
+function toHandleHex(handle: HandleLike): string {
+  const hex = handle instanceof Uint8Array ? ethers.hexlify(handle) : handle;
+  if (typeof hex !== 'string' || !ethers.isHexString(hex, 32)) {
+    throw new InvalidHandleError(`Invalid ciphertext handle ${String(hex)}: expected a 0x-prefixed bytes32`);
+  }
+  return hex.toLowerCase();
+}
+
+/**
+ * Decode a ciphertext handle into its fields
+ * Throws InvalidHandleError for malformed handles, unknown types and other layout versions.
+ */
+export function parseHandle(handle: HandleLike): ParsedHandle {
+  const hex = toHandleHex(handle);
+  if (hex === ethers.ZeroHash) {
+    throw new InvalidHandleError('Invalid ciphertext handle: it is all zeros (the value was never initialized)');
+  }
+
+  const indexByte = parseInt(hex.slice(44, 46), 16);
+  const typeId = parseInt(hex.slice(62, 64), 16);
+  const version = parseInt(hex.slice(64, 66), 16);
+
+  const fheType = HANDLE_FHE_TYPES[typeId];
+  if (fheType === undefined) {
+    throw new InvalidHandleError(`Invalid ciphertext handle ${hex}: unknown FHE type id ${typeId}`);
+  }
+  if (version !== FHEVM_HANDLE_VERSION) {
+    throw new InvalidHandleError(`Invalid ciphertext handle ${hex}: layout version ${version}, expected ${FHEVM_HANDLE_VERSION}`);
+  }
+
+  const computed = indexByte === COMPUTED_HANDLE_INDEX;
+  return {
+    handle: hex,
+    hashPrefix: hex.slice(0, 44),
+    index: computed ? null : indexByte,
+    computed,
+    chainId: Number(BigInt(`0x${hex.slice(46, 62)}`)),
+    fheType,
+    typeId,
+    version,
+  };
+}
+
+/**
+ * True when the value decodes as a ciphertext handle
+ */
+export function isHandle(value: unknown): value is HandleLike {
+  try {
+    parseHandle(value as HandleLike);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * FHE type encoded in a ciphertext handle
+ */
+export function handleType(handle: HandleLike): FheInputType {
+  return parseHandle(handle).fheType;
+}
+
+/**
+ * Throw InvalidHandleError unless the handle has the expected FHE type (or one of them)
+ */
+export function assertHandleType(handle: HandleLike, expected: FheInputType | FheInputType[]): ParsedHandle {
+  const parsed = parseHandle(handle);
+  const allowed = Array.isArray(expected) ? expected : [expected];
+  if (!allowed.includes(parsed.fheType)) {
+    throw new InvalidHandleError(
+      `Handle ${shortHandle(parsed.handle)} is an ${parsed.fheType}, expected ${allowed.join(' or ')}`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Throw InvalidHandleError unless the handle was created on the given chain
+ */
+export function assertHandleChain(handle: HandleLike, chainId: number): ParsedHandle {
+  const parsed = parseHandle(handle);
+  if (parsed.chainId !== chainId) {
+    throw new InvalidHandleError(
+      `Handle ${shortHandle(parsed.handle)} belongs to chain ${parsed.chainId}, but this client is on chain ${chainId}`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Shortened handle for logs: 0x1234…7a690400
+ */
+export function shortHandle(handle: HandleLike): string {
+  const hex = handle instanceof Uint8Array ? ethers.hexlify(handle) : String(handle);
+  return hex.length > 18 ? `${hex.slice(0, 6)}…${hex.slice(-8)}` : hex;
+}
+
+/**
+ * Human-readable description, e.g. `euint32 #0 on chain 31337 (0x472b…7a690400)`
+ */
+export function formatHandle(handle: HandleLike): string {
+  const parsed = parseHandle(handle);
+  const origin = parsed.computed ? 'computed' : `#${parsed.index}`;
+  return `${parsed.fheType} ${origin} on chain ${parsed.chainId} (${shortHandle(parsed.handle)})`;
+}
@@ -3,6 +3,29 @@
  * Simple, clean implementation that matches showcase APIs
  */
 
-// Core FHEVM functionality - All functions consolidated in fhevm.ts
+// Core FHEVM functionality - free functions backed by the default client
 export * from './fhevm.js';
-export * from './contracts.js';
\ No newline at end of file
+export * from './client.js';
+export * from './mock.js';
+export * from './node.js';
+export * from './networks.js';
+export * from './environment.js';
+export * from './wasm.js';
+export * from './worker.js';
+export * from './transport.js';
+export * from './input.js';
+export * from './permits.js';
+export * from './acl.js';
+export * from './typechain/index.js';
+export * from './handles.js';
+export * from './batch.js';
+export * from './scheduler.js';
+export * from './errors.js';
+export * from './operation.js';
+export * from './logger.js';
+export * from './events.js';
+export * from './store.js';
+export * from './wallet.js';
+export * from './contracts.js';
+export * from './simulate.js';
+export * from './transactions.js';
@@ -0,0 +1,117 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { FhevmAbortError, InvalidInputError, ProofVerificationError } from './errors.js';
+import { fhevmEvents } from './events.js';
+import { EncryptedInputBuilder, MAX_INPUT_BITS, toClearValue } from './input.js';
+import { setLogLevel } from './logger.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+
+// RelayerSDK instance whose input returns one 32-byte handle per added value
+function fakeInstance(encrypt?: () => Promise<any>) {
+  const added: unknown[][] = [];
+  const instance = {
+    createEncryptedInput: () => {
+      const input: Record<string, unknown> = {
+        encrypt: encrypt ?? (async () => ({
+          handles: added.map((_, i) => new Uint8Array(32).fill(i + 1)),
+          inputProof: new Uint8Array([0xab]),
+        })),
+      };
+      for (const method of ['addBool', 'add8', 'add16', 'add32', 'add64', 'add128', 'add256', 'addAddress']) {
+        input[method] = (value: unknown) => added.push([method, value]);
+      }
+      return input;
+    },
+  };
+  return { instance, added };
+}
+
+function builder(instance: any = fakeInstance().instance) {
+  return new EncryptedInputBuilder(instance, CONTRACT, USER, 31337);
+}
+
+describe('EncryptedInputBuilder', () => {
+  const unsubscribes: Array<() => void> = [];
+
+  beforeAll(() => {
+    setLogLevel('silent');
+  });
+
+  afterEach(() => {
+    unsubscribes.splice(0).forEach((unsubscribe) => unsubscribe());
+  });
+
+  it.each([
+    ['a non-numeric string', () => builder().add('euint8', 'abc')],
+    ['a fractional number', () => builder().add('euint32', 1.5)],
+    ['a negative number', () => builder().u8(-1)],
+    ['an out-of-range value', () => builder().u8(256)],
+    ['a string for u16', () => builder().u16('12' as any)],
+    ['a fractional ebool', () => builder().bool(1.5)],
+    ['a string ebool', () => builder().add('ebool', 'true')],
+    ['a bigint ebool above 1', () => builder().bool(2n)],
+    ['a malformed address', () => builder().add('eaddress', '0x1234')],
+    ['an unknown type', () => builder().add('euint4' as any, 1)],
+  ])('rejects %s with InvalidInputError', (_, add) => {
+    expect(add).toThrow(InvalidInputError);
+  });
+
+  it('rejects inputs above the bit limit', () => {
+    const input = builder();
+    for (let i = 0; i < MAX_INPUT_BITS / 256; i++) input.u256(1n);
+
+    expect(() => input.bool(true)).toThrow(/exceeds 2048 bits/);
+  });
+
+  it('encrypts every value with one proof and reports start and end events', async () => {
+    const { instance, added } = fakeInstance();
+    const events: string[] = [];
+    unsubscribes.push(
+      fhevmEvents.on('encrypt:start', () => events.push('start')),
+      fhevmEvents.on('encrypt:end', (event) => events.push(`end:${event.ok}`))
+    );
+
+    const result = await builder(instance).bool(true).u64(5n).add('eaddress', USER.toUpperCase().replace('0X', '0x')).encrypt();
+
+    expect(added).toEqual([['addBool', true], ['add64', 5n], ['addAddress', USER]]);
+    expect(result.entries.map(({ type }) => type)).toEqual(['ebool', 'euint64', 'eaddress']);
+    expect(result.handles[0]).toBe(`0x${'01'.repeat(32)}`);
+    expect(result.inputProof).toBe('0xab');
+    expect(events).toEqual(['start', 'end:true']);
+  });
+
+  it('maps relayer failures to typed errors and reports them', async () => {
+    const { instance } = fakeInstance(async () => {
+      throw new Error('Coprocessor signers threshold is not reached');
+    });
+    const ends: Array<string | undefined> = [];
+    unsubscribes.push(fhevmEvents.on('encrypt:end', (event) => ends.push(event.errorCode)));
+
+    await expect(builder(instance).u8(1).encrypt()).rejects.toBeInstanceOf(ProofVerificationError);
+    expect(ends).toEqual(['PROOF_VERIFICATION_FAILED']);
+  });
+
+  it('rejects an aborted encryption', async () => {
+    const { instance } = fakeInstance(() => new Promise(() => {}));
+    const controller = new AbortController();
+
+    const pending = builder(instance).u8(1).encrypt({ signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(FhevmAbortError);
+  });
+
+  it('rejects an empty input', async () => {
+    await expect(builder().encrypt()).rejects.toBeInstanceOf(InvalidInputError);
+  });
+});
+
+describe('toClearValue', () => {
+  it('normalizes raw decrypted values to their FHE type', () => {
+    expect(toClearValue(1n, 'ebool')).toBe(true);
+    expect(toClearValue('0', 'ebool')).toBe(false);
+    expect(toClearValue(42, 'euint32')).toBe(42n);
+    expect(toClearValue(BigInt(USER), 'eaddress')).toBe(USER);
+  });
+});
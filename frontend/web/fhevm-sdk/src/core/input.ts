@@ -0,0 +1,257 @@
+/**
+ * Typed Encrypted Input Builder - Universal SDK
+ * Fluent wrapper over RelayerEncryptedInput covering every FHE input type.
+ * All values added to one builder share a single input proof.
+ */
+
+import { ethers } from "ethers";
+import { InvalidInputError, toFhevmError } from './errors.js';
+import { fhevmEvents, redactHandles, reportRelayerError, startTimer } from './events.js';
+import { logger } from './logger.js';
+import { bindRelayerSignal } from './mock.js';
+import { raceAbort, reportProgress, throwIfAborted } from './operation.js';
+import type { FhevmOperationOptions } from './operation.js';
+
+export type FheInputType =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'euint256'
+  | 'eaddress';
+
+/**
+ * Bits each type consumes in the input proof (ebool counts as 2, like the RelayerSDK)
+ */
+export const FHE_INPUT_BITS: Record<FheInputType, number> = {
+  ebool: 2,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+  eaddress: 160,
+};
+
+/**
+ * Solidity type each FHE type decrypts to (used to ABI-encode clear values)
+ */
+export const FHE_ABI_TYPES: Record<FheInputType, string> = {
+  ebool: 'bool',
+  euint8: 'uint8',
+  euint16: 'uint16',
+  euint32: 'uint32',
+  euint64: 'uint64',
+  euint128: 'uint128',
+  euint256: 'uint256',
+  eaddress: 'address',
+};
+
+/** Decrypted value: bigint for euintN, boolean for ebool, checksummed address for eaddress */
+export type ClearValue = bigint | boolean | string;
+
+/**
+ * Normalize a raw decrypted value to the JS type matching its FHE type
+ */
+export function toClearValue(value: bigint | number | string | boolean, type: FheInputType): ClearValue {
+  switch (type) {
+    case 'ebool':
+      return typeof value === 'boolean' ? value : BigInt(value) !== 0n;
+    case 'eaddress':
+      return typeof value === 'string' && ethers.isAddress(value)
+        ? ethers.getAddress(value)
+        : ethers.getAddress(ethers.toBeHex(BigInt(value), 20));
+    default:
+      return BigInt(value);
+  }
+}
+
+/** The RelayerSDK rejects inputs above this many bits */
+export const MAX_INPUT_BITS = 2048;
+
+export interface EncryptedInputEntry<T extends FheInputType = FheInputType> {
+  type: T;
+  handle: string;
+}
+
+export interface EncryptedInputResult<T extends readonly FheInputType[]> {
+  /** Handles in insertion order, hex encoded (bytes32) */
+  handles: { [K in keyof T]: string };
+  /** Same handles, tagged with their FHE type */
+  entries: { [K in keyof T]: EncryptedInputEntry<T[K]> };
+  /** Shared proof for every handle, hex encoded */
+  inputProof: string;
+}
+
+type Append<T extends readonly FheInputType[], U extends FheInputType> = [...T, U];
+
+function assertUint(value: number | bigint, bits: number, type: FheInputType): void {
+  if (typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new InvalidInputError(`Invalid ${type} value ${String(value)}: expected a number or bigint`);
+  }
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new InvalidInputError(`Invalid ${type} value ${value}: expected a safe integer (use bigint for large values)`);
+  }
+  const big = BigInt(value);
+  if (big < 0n || big >= 1n << BigInt(bits)) {
+    throw new InvalidInputError(`Value ${big} is out of range for ${type} (0 to 2^${bits} - 1)`);
+  }
+}
+
+/**
+ * Encrypt a RelayerSDK input with encrypt:start/end events; an abort or a
+ * relayer failure rejects with a typed error
+ */
+export async function trackEncrypt(
+  input: any,
+  event: { chainId?: number; contractAddress: string; types: FheInputType[] },
+  options?: FhevmOperationOptions
+): Promise<any> {
+  throwIfAborted(options?.signal);
+  const elapsed = startTimer();
+  fhevmEvents.emit('encrypt:start', event);
+
+  try {
+    reportProgress(options, 'encrypt', 'encrypting');
+    const result = await raceAbort<any>(input.encrypt(), options?.signal);
+    fhevmEvents.emit('encrypt:end', { ...event, handles: redactHandles(result?.handles ?? []), durationMs: elapsed(), ok: true });
+    return result;
+  } catch (error) {
+    const fhevmError = toFhevmError(error);
+    reportRelayerError(fhevmError, 'INPUT_PROOF', event.chainId);
+    fhevmEvents.emit('encrypt:end', { ...event, handles: [], durationMs: elapsed(), ok: false, errorCode: fhevmError.code });
+    throw fhevmError;
+  }
+}
+
+export class EncryptedInputBuilder<T extends readonly FheInputType[] = []> {
+  private types: FheInputType[] = [];
+  private values: Array<number | bigint | boolean | string> = [];
+
+  constructor(
+    private instance: any,
+    readonly contractAddress: string,
+    readonly userAddress: string,
+    /** Only used to tag lifecycle events */
+    readonly chainId?: number
+  ) {}
+
+  bool(value: boolean | number | bigint): EncryptedInputBuilder<Append<T, 'ebool'>> {
+    if (typeof value !== 'boolean' && value !== 0 && value !== 1 && value !== 0n && value !== 1n) {
+      throw new InvalidInputError(`Value ${String(value)} is out of range for ebool (expected true/false or 0/1)`);
+    }
+    return this.push('ebool', value);
+  }
+
+  u8(value: number | bigint): EncryptedInputBuilder<Append<T, 'euint8'>> {
+    return this.pushUint('euint8', value);
+  }
+
+  u16(value: number | bigint): EncryptedInputBuilder<Append<T, 'euint16'>> {
+    return this.pushUint('euint16', value);
+  }
+
+  u32(value: number | bigint): EncryptedInputBuilder<Append<T, 'euint32'>> {
+    return this.pushUint('euint32', value);
+  }
+
+  u64(value: number | bigint): EncryptedInputBuilder<Append<T, 'euint64'>> {
+    return this.pushUint('euint64', value);
+  }
+
+  u128(value: number | bigint): EncryptedInputBuilder<Append<T, 'euint128'>> {
+    return this.pushUint('euint128', value);
+  }
+
+  u256(value: number | bigint): EncryptedInputBuilder<Append<T, 'euint256'>> {
+    return this.pushUint('euint256', value);
+  }
+
+  address(value: string): EncryptedInputBuilder<Append<T, 'eaddress'>> {
+    if (!ethers.isAddress(value)) {
+      throw new InvalidInputError(`Invalid eaddress value ${value}: expected a 20-byte hex address`);
+    }
+    return this.push('eaddress', ethers.getAddress(value));
+  }
+
+  /**
+   * Add a value by FHE type name (for callers that only know the type at runtime)
+   */
+  add<U extends FheInputType>(type: U, value: number | bigint | boolean | string): EncryptedInputBuilder<Append<T, U>> {
+    if (!(type in FHE_INPUT_BITS)) {
+      throw new InvalidInputError(`Unknown FHE type ${String(type)}`);
+    }
+    if (type !== 'eaddress' && typeof value === 'string') {
+      throw new InvalidInputError(`Invalid ${type} value "${value}": expected a number, bigint${type === 'ebool' ? ' or boolean' : ''}`);
+    }
+    switch (type) {
+      case 'ebool': return this.bool(value as boolean | number | bigint) as unknown as EncryptedInputBuilder<Append<T, U>>;
+      case 'eaddress': return this.address(value as string) as unknown as EncryptedInputBuilder<Append<T, U>>;
+      default: return this.pushUint(type, value as number | bigint);
+    }
+  }
+
+  /** FHE types added so far, in insertion order */
+  getTypes(): readonly FheInputType[] {
+    return [...this.types];
+  }
+
+  /** Total bits consumed so far */
+  getBits(): number {
+    return this.types.reduce((sum, type) => sum + FHE_INPUT_BITS[type], 0);
+  }
+
+  /**
+   * Encrypt every value with one input proof
+   */
+  async encrypt(options?: FhevmOperationOptions): Promise<EncryptedInputResult<T>> {
+    if (this.types.length === 0) {
+      throw new InvalidInputError('Encrypted input is empty. Add at least one value before encrypting.');
+    }
+    throwIfAborted(options?.signal);
+
+    logger.info(`🔐 Encrypting ${this.types.length} value(s) [${this.types.join(', ')}] for contract ${this.contractAddress}`);
+    const instance = await bindRelayerSignal(this.instance, options?.signal);
+    const input = instance.createEncryptedInput(this.contractAddress, this.userAddress);
+    this.types.forEach((type, i) => {
+      const value = this.values[i];
+      switch (type) {
+        case 'ebool': input.addBool(value); break;
+        case 'euint8': input.add8(value); break;
+        case 'euint16': input.add16(value); break;
+        case 'euint32': input.add32(value); break;
+        case 'euint64': input.add64(value); break;
+        case 'euint128': input.add128(value); break;
+        case 'euint256': input.add256(value); break;
+        case 'eaddress': input.addAddress(value); break;
+      }
+    });
+
+    const result = await trackEncrypt(input, { chainId: this.chainId, contractAddress: this.contractAddress, types: [...this.types] }, options);
+    const handles = (result.handles as Array<Uint8Array | string>).map((handle) => ethers.hexlify(handle));
+    logger.info('✅ Encrypted input created successfully');
+
+    return {
+      handles: handles as EncryptedInputResult<T>['handles'],
+      entries: handles.map((handle, i) => ({ type: this.types[i], handle })) as EncryptedInputResult<T>['entries'],
+      inputProof: ethers.hexlify(result.inputProof),
+    };
+  }
+
+  private pushUint<U extends FheInputType>(type: U, value: number | bigint): EncryptedInputBuilder<Append<T, U>> {
+    assertUint(value, FHE_INPUT_BITS[type], type);
+    return this.push(type, value);
+  }
+
+  private push<U extends FheInputType>(type: U, value: number | bigint | boolean | string): EncryptedInputBuilder<Append<T, U>> {
+    if (this.getBits() + FHE_INPUT_BITS[type] > MAX_INPUT_BITS) {
+      throw new InvalidInputError(`Encrypted input exceeds ${MAX_INPUT_BITS} bits. Split the values across several inputs.`);
+    }
+    this.types.push(type);
+    this.values.push(value);
+    return this as unknown as EncryptedInputBuilder<Append<T, U>>;
+  }
+}
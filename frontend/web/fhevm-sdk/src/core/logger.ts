@@ -0,0 +1,56 @@
+/**
+ * SDK Logger - Universal SDK
+ * Every SDK message goes through this leveled logger, so apps can silence
+ * it or forward it to their own logging instead of the console.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface FhevmLogger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+let sink: FhevmLogger = console;
+let level: LogLevel = 'info';
+
+/**
+ * Send SDK messages to another logger (pino, winston, a test spy...); pass null for the console
+ */
+export function setLogger(next: FhevmLogger | null): void {
+  sink = next ?? console;
+}
+
+/**
+ * Drop messages below this level (default 'info'; 'silent' drops everything)
+ */
+export function setLogLevel(next: LogLevel): void {
+  level = next;
+}
+
+export function getLogLevel(): LogLevel {
+  return level;
+}
+
+function write(messageLevel: Exclude<LogLevel, 'silent'>, args: unknown[]) {
+  if (LEVEL_RANK[messageLevel] < LEVEL_RANK[level]) return;
+  sink[messageLevel](...args);
+}
+
+/** Logger used inside the SDK; filters by level and forwards to the configured sink */
+export const logger: FhevmLogger = {
+  debug: (...args) => write('debug', args),
+  info: (...args) => write('info', args),
+  warn: (...args) => write('warn', args),
+  error: (...args) => write('error', args),
+};
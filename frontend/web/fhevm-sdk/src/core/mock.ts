@@ -0,0 +1,176 @@
+/**
+ * FHEVM Mock Backend - Universal SDK
+ * Offline FHEVM instance for a local Hardhat node running the fhevm plugin.
+ * Encryption, user decryption and public decryption are all served by the
+ * node itself, so no CDN or relayer is needed.
+ */
+
+import { ethers } from "ethers";
+import type { FhevmProvider } from './client.js';
+import { RelayerUnavailableError, UnsupportedNetworkError } from './errors.js';
+import { logger } from './logger.js';
+import type { RelayerOperation, RelayerTransport } from './transport.js';
+
+export const HARDHAT_CHAIN_ID = 31337;
+export const DEFAULT_MOCK_RPC_URL = 'http://127.0.0.1:8545';
+
+const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)'
+];
+
+/**
+ * Verifier settings a relayer stand-in publishes, so no chain reads are needed
+ */
+export interface MockVerifierMetadata {
+  signersAddresses: string[];
+  threshold: number;
+  eip712Domain: {
+    fields: number;
+    name: string;
+    version: string;
+    /** Decimal string (JSON has no bigint) */
+    chainId: string;
+    verifyingContract: string;
+    salt: string;
+  };
+}
+
+/**
+ * Addresses the fhevm Hardhat plugin reports through `fhevm_relayer_metadata`
+ * (a relayer stand-in also publishes the verifier settings)
+ */
+export interface MockRelayerMetadata {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+  kmsVerifier?: MockVerifierMetadata;
+  inputVerifier?: MockVerifierMetadata;
+}
+
+// JSON-RPC method names the mock instance uses -> relayer operations
+const RELAYER_METHODS: Record<string, RelayerOperation> = {
+  fhevm_relayer_metadata: 'METADATA',
+  fhevm_relayer_v1_input_proof: 'INPUT_PROOF',
+  fhevm_relayer_v1_user_decrypt: 'USER_DECRYPT',
+  fhevm_relayer_v1_public_decrypt: 'PUBLIC_DECRYPT',
+};
+
+/**
+ * Minimal provider that sends the mock instance's relayer calls through a transport
+ *
+ * @param signal - cancels every request made through this provider
+ */
+function createTransportRelayerProvider(transport: RelayerTransport, signal?: AbortSignal) {
+  return {
+    async send(method: string, params: any[] = []) {
+      const operation = RELAYER_METHODS[method];
+      if (!operation) throw new Error(`Relayer transport cannot handle ${method}`);
+      const response = await transport.request(operation, params[0], { signal });
+      // Decryption endpoints answer with one entry per request
+      return Array.isArray(response) ? response[0] : response;
+    },
+  };
+}
+
+async function fetchRelayerMetadata(relayerProvider: { send(method: string, params: any[]): Promise<any> }, viaTransport: boolean): Promise<MockRelayerMetadata> {
+  try {
+    return await relayerProvider.send('fhevm_relayer_metadata', []);
+  } catch (err) {
+    throw new RelayerUnavailableError(viaTransport
+      ? 'The relayer does not answer /v1/metadata. Mock mode over a transport needs the relayer stand-in.'
+      : 'The node does not answer fhevm_relayer_metadata. Mock mode needs a local Hardhat node running the @fhevm/hardhat-plugin.', { cause: err });
+  }
+}
+
+function toVerifierProperties(verifier: MockVerifierMetadata) {
+  return {
+    signersAddresses: verifier.signersAddresses as `0x${string}`[],
+    threshold: verifier.threshold,
+    eip712Domain: { ...verifier.eip712Domain, chainId: BigInt(verifier.eip712Domain.chainId) },
+  };
+}
+
+/**
+ * Read the gateway-side verifying contract and chain ID from an EIP-5267 host contract
+ */
+async function fetchEip712Domain(provider: ethers.Provider, address: string) {
+  const contract = new ethers.Contract(address, EIP712_DOMAIN_ABI, provider);
+  const domain = await contract.eip712Domain();
+  return {
+    chainId: Number(domain.chainId),
+    verifyingContract: domain.verifyingContract as `0x${string}`,
+  };
+}
+
+/**
+ * Create a mock FHEVM instance bound to a local Hardhat node
+ *
+ * @param provider - RPC URL or EIP-1193 provider of the Hardhat node (defaults to 127.0.0.1:8545)
+ * @param chainId - Expected chain ID of the node
+ * @param transport - Send relayer calls here (e.g. the relayer stand-in) instead of to the node
+ */
+export async function createMockFheInstance(provider: FhevmProvider | undefined, chainId: number, transport?: RelayerTransport) {
+  // Optional peer dependency: only loaded when mock mode is requested
+  // Use eval to prevent webpack from analyzing these imports
+  const { MockFhevmInstance } = await eval('import("@fhevm/mock-utils")') as typeof import('@fhevm/mock-utils');
+
+  const rpcProvider = typeof provider === 'object'
+    ? new ethers.BrowserProvider(provider)
+    : new ethers.JsonRpcProvider(provider ?? DEFAULT_MOCK_RPC_URL);
+
+  const relayerProvider = transport ? createTransportRelayerProvider(transport) : rpcProvider;
+
+  const metadata = await fetchRelayerMetadata(relayerProvider, !!transport);
+  if (Number(metadata.chainId) !== chainId) {
+    throw new UnsupportedNetworkError(`Mock node is on chain ${metadata.chainId}, but the client expects chain ${chainId}.`);
+  }
+
+  const [decryption, inputVerification] = metadata.kmsVerifier && metadata.inputVerifier
+    ? [metadata.kmsVerifier.eip712Domain, metadata.inputVerifier.eip712Domain].map((domain) => ({
+      chainId: Number(domain.chainId),
+      verifyingContract: domain.verifyingContract as `0x${string}`,
+    }))
+    : await Promise.all([
+      fetchEip712Domain(rpcProvider, metadata.KMSVerifierAddress),
+      fetchEip712Domain(rpcProvider, metadata.InputVerifierAddress),
+    ]);
+
+  logger.info('🧪 Creating mock FHEVM instance against local Hardhat node...');
+
+  const config = {
+    aclContractAddress: metadata.ACLAddress as `0x${string}`,
+    kmsContractAddress: metadata.KMSVerifierAddress as `0x${string}`,
+    inputVerifierContractAddress: metadata.InputVerifierAddress as `0x${string}`,
+    verifyingContractAddressDecryption: decryption.verifyingContract,
+    verifyingContractAddressInputVerification: inputVerification.verifyingContract,
+    chainId,
+    gatewayChainId: decryption.chainId,
+  };
+  const properties = {
+    inputVerifierProperties: metadata.inputVerifier ? toVerifierProperties(metadata.inputVerifier) : {},
+    kmsVerifierProperties: metadata.kmsVerifier ? toVerifierProperties(metadata.kmsVerifier) : {},
+  };
+  const instance = await MockFhevmInstance.create(relayerProvider, rpcProvider, config, properties);
+
+  logger.info('✅ Mock FHEVM instance created successfully!');
+  if (!transport) return instance;
+
+  // The instance keeps its relayer provider private, so a cancellable call gets
+  // its own instance whose provider passes the call's signal to the transport
+  return Object.assign(instance, {
+    withSignal: (signal: AbortSignal) => MockFhevmInstance.create(
+      createTransportRelayerProvider(transport, signal), rpcProvider, config, properties
+    ),
+  });
+}
+
+/**
+ * Instance whose relayer requests stop when `signal` fires. Only mock instances
+ * over a relayer transport support this; other instances are returned as is, and
+ * the RelayerSDK's own requests run to completion.
+ */
+export async function bindRelayerSignal(instance: any, signal?: AbortSignal): Promise<any> {
+  return signal && typeof instance?.withSignal === 'function' ? instance.withSignal(signal) : instance;
+}
@@ -0,0 +1,134 @@
+/**
+ * FHEVM Network Presets - Universal SDK
+ * Host and gateway contract addresses plus relayer URL per chain, so the
+ * client picks its RelayerSDK config by chain ID instead of assuming Sepolia.
+ */
+
+import { ethers } from "ethers";
+import { DEFAULT_MOCK_RPC_URL, HARDHAT_CHAIN_ID } from './mock.js';
+import { UnsupportedNetworkError } from './errors.js';
+import { logger } from './logger.js';
+
+export const SEPOLIA_CHAIN_ID = 11155111;
+
+export interface FhevmNetworkPreset {
+  /** Human-readable name used in logs and errors */
+  name: string;
+  /** FHEVM host chain ID */
+  chainId: number;
+  /** Gateway chain ID (signs decryptions and input proofs) */
+  gatewayChainId: number;
+  /** ACL contract on the host chain */
+  aclContractAddress: string;
+  /** KMS verifier contract on the host chain */
+  kmsContractAddress: string;
+  /** Input verifier contract on the host chain */
+  inputVerifierContractAddress: string;
+  /** Decryption contract on the gateway chain (EIP-712 verifying contract) */
+  verifyingContractAddressDecryption: string;
+  /** Input verification contract on the gateway chain (EIP-712 verifying contract) */
+  verifyingContractAddressInputVerification: string;
+  relayerUrl: string;
+}
+
+/**
+ * Host addresses hard-coded in `ZamaConfig.sol` (@fhevm/solidity/config),
+ * which contracts inheriting `ZamaEthereumConfig` are wired to on-chain
+ */
+export const ZAMA_CONFIG_ADDRESSES: Record<number, { ACLAddress: string; KMSVerifierAddress: string }> = {
+  [SEPOLIA_CHAIN_ID]: {
+    ACLAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+    KMSVerifierAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  },
+  [HARDHAT_CHAIN_ID]: {
+    ACLAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+    KMSVerifierAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  },
+};
+
+export const SEPOLIA_NETWORK: FhevmNetworkPreset = {
+  name: 'sepolia',
+  chainId: SEPOLIA_CHAIN_ID,
+  gatewayChainId: 10901,
+  aclContractAddress: ZAMA_CONFIG_ADDRESSES[SEPOLIA_CHAIN_ID].ACLAddress,
+  kmsContractAddress: ZAMA_CONFIG_ADDRESSES[SEPOLIA_CHAIN_ID].KMSVerifierAddress,
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+  verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  relayerUrl: 'https://relayer.testnet.zama.org',
+};
+
+/**
+ * Local Hardhat node running @fhevm/hardhat-plugin. In mock mode the node
+ * itself answers the relayer calls, so the relayer URL is the node's RPC URL.
+ */
+export const HARDHAT_NETWORK: FhevmNetworkPreset = {
+  name: 'hardhat',
+  chainId: HARDHAT_CHAIN_ID,
+  gatewayChainId: 55815,
+  aclContractAddress: ZAMA_CONFIG_ADDRESSES[HARDHAT_CHAIN_ID].ACLAddress,
+  kmsContractAddress: ZAMA_CONFIG_ADDRESSES[HARDHAT_CHAIN_ID].KMSVerifierAddress,
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  relayerUrl: DEFAULT_MOCK_RPC_URL,
+};
+
+// Chain ID -> preset
+const presets = new Map<number, FhevmNetworkPreset>([
+  [SEPOLIA_NETWORK.chainId, SEPOLIA_NETWORK],
+  [HARDHAT_NETWORK.chainId, HARDHAT_NETWORK],
+]);
+
+function assertAddress(preset: FhevmNetworkPreset, field: keyof FhevmNetworkPreset) {
+  if (!ethers.isAddress(preset[field])) {
+    throw new UnsupportedNetworkError(`Network preset "${preset.name}" has an invalid ${field}: ${preset[field]}`);
+  }
+}
+
+/**
+ * Register a custom network (or replace a built-in one) for its chain ID
+ */
+export function registerNetworkPreset(preset: FhevmNetworkPreset): void {
+  assertAddress(preset, 'aclContractAddress');
+  assertAddress(preset, 'kmsContractAddress');
+  assertAddress(preset, 'inputVerifierContractAddress');
+  assertAddress(preset, 'verifyingContractAddressDecryption');
+  assertAddress(preset, 'verifyingContractAddressInputVerification');
+
+  const zamaConfig = ZAMA_CONFIG_ADDRESSES[preset.chainId];
+  if (zamaConfig && (
+    zamaConfig.ACLAddress.toLowerCase() !== preset.aclContractAddress.toLowerCase() ||
+    zamaConfig.KMSVerifierAddress.toLowerCase() !== preset.kmsContractAddress.toLowerCase()
+  )) {
+    logger.warn(`⚠️ Network preset "${preset.name}" does not match the ZamaConfig addresses for chain ${preset.chainId}`);
+  }
+
+  presets.set(preset.chainId, preset);
+}
+
+/**
+ * Preset for a chain ID; throws UnsupportedNetworkError for chains without one
+ */
+export function getNetworkPreset(chainId: number): FhevmNetworkPreset {
+  const preset = presets.get(chainId);
+  if (!preset) {
+    const known = [...presets.values()].map((p) => `${p.name} (${p.chainId})`).join(', ');
+    throw new UnsupportedNetworkError(
+      `No FHEVM network preset for chain ${chainId}. Known networks: ${known}. Register one with registerNetworkPreset().`
+    );
+  }
+  return preset;
+}
+
+export function listNetworkPresets(): FhevmNetworkPreset[] {
+  return [...presets.values()];
+}
+
+/**
+ * RelayerSDK config fields for a preset (without `network`, which the caller provides)
+ */
+export function toRelayerConfig(preset: FhevmNetworkPreset): Record<string, any> {
+  const { name: _name, ...config } = preset;
+  return config;
+}
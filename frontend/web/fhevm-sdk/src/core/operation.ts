@@ -0,0 +1,91 @@
+/**
+ * Operation Options - Universal SDK
+ * `{ signal, onProgress }` accepted by every long-running SDK call.
+ * Aborting rejects the call with FhevmAbortError right away, but it is not a
+ * full cancellation. With the real relayer the RelayerSDK takes no signal:
+ * its requests and polling keep running and the abort only discards their
+ * result. Only work the SDK controls stops: queued decryptions, and relayer
+ * transport requests with their retries (mock mode with a `relayer` transport).
+ */
+
+import { FhevmAbortError } from './errors.js';
+import { logger } from './logger.js';
+
+export type FhevmOperation = 'encrypt' | 'user-decrypt' | 'public-decrypt';
+
+/**
+ * - signing: waiting for the wallet to sign a decryption permit
+ * - encrypting: building the encrypted input and its proof
+ * - requesting: waiting for the relayer
+ * - verifying: waiting for the on-chain proof check (useDecrypt)
+ */
+export type FhevmOperationPhase = 'signing' | 'encrypting' | 'requesting' | 'verifying';
+
+export interface FhevmProgress {
+  operation: FhevmOperation;
+  phase: FhevmOperationPhase;
+}
+
+export interface FhevmOperationOptions {
+  /**
+   * Abort the call; it rejects with FhevmAbortError. With the real relayer this
+   * only discards the result: the RelayerSDK keeps polling until it is done.
+   */
+  signal?: AbortSignal;
+  /** Called when the call enters a new phase */
+  onProgress?: (progress: FhevmProgress) => void;
+}
+
+function abortError(signal: AbortSignal) {
+  return new FhevmAbortError(undefined, { cause: signal.reason });
+}
+
+/**
+ * Throw FhevmAbortError when the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError(signal);
+}
+
+/**
+ * Settle like the promise, or reject with FhevmAbortError as soon as the signal fires
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wait, or reject with FhevmAbortError when the signal fires first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(abortError(signal));
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function reportProgress(options: FhevmOperationOptions | undefined, operation: FhevmOperation, phase: FhevmOperationPhase): void {
+  if (!options?.onProgress) return;
+  try {
+    options.onProgress({ operation, phase });
+  } catch (err) {
+    // A broken callback must not break the SDK call that reported
+    logger.warn('⚠️ FHEVM onProgress callback threw:', err);
+  }
+}
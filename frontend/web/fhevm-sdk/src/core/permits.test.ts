@@ -0,0 +1,183 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { InvalidInputError } from './errors.js';
+import { setLogLevel } from './logger.js';
+import { IndexedDbPermitStore, MemoryPermitStore, PermitManager, isPermitExpired, permitId } from './permits.js';
+
+const CHAIN_ID = 31337;
+const CONTRACT_A = '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+const CONTRACT_B = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const DAY = 24 * 60 * 60 * 1000;
+
+let nextKey = 1;
+
+function fakeFhe() {
+  return {
+    generateKeypair: vi.fn(() => {
+      const key = nextKey++;
+      return { publicKey: `pub-${key}`, privateKey: `priv-${key}` };
+    }),
+    createEIP712: vi.fn((publicKey: string, contractAddresses: string[], startTimestamp: number, durationDays: number) => ({
+      domain: {},
+      types: { UserDecryptRequestVerification: [] },
+      message: { publicKey, contractAddresses, startTimestamp, durationDays },
+    })),
+  };
+}
+
+function fakeSigner(address = '0x1234567890123456789012345678901234567890') {
+  return {
+    getAddress: async () => address,
+    signTypedData: vi.fn(async () => '0xsignature'),
+  };
+}
+
+describe('PermitManager', () => {
+  beforeAll(() => {
+    setLogLevel('silent');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reuses a stored permit for the same chain, user and contract set', async () => {
+    const manager = new PermitManager({ store: new MemoryPermitStore() });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    const first = await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A, CONTRACT_B]);
+    const second = await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_B.toUpperCase().replace('0X', '0x'), CONTRACT_A.toLowerCase()]);
+
+    expect(second).toEqual(first);
+    expect(first.signature).toBe('signature');
+    expect(first.contractAddresses).toEqual([CONTRACT_A.toLowerCase(), CONTRACT_B]);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+  });
+
+  it('signs separate permits for different contract sets and chains', async () => {
+    const manager = new PermitManager({ store: new MemoryPermitStore() });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]);
+    await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A], { contractAddresses: [CONTRACT_B] });
+    await manager.getPermit(fhe, 11155111, signer, [CONTRACT_A]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(3);
+    expect(await manager.listPermits({ chainId: CHAIN_ID })).toHaveLength(2);
+  });
+
+  it('reuses a permit covering more contracts than requested', async () => {
+    const manager = new PermitManager({ store: new MemoryPermitStore() });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    const wide = await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A, CONTRACT_B]);
+
+    await expect(manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A])).resolves.toEqual(wide);
+    await expect(manager.findPermit(CHAIN_ID, await signer.getAddress(), [CONTRACT_B])).resolves.toEqual(wide);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores an expired permit covering the requested contracts', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const manager = new PermitManager({ store: new MemoryPermitStore(), durationDays: 1 });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A, CONTRACT_B]);
+    vi.setSystemTime(Date.now() + 2 * DAY);
+
+    const renewed = await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]);
+
+    expect(renewed.contractAddresses).toEqual([CONTRACT_A.toLowerCase()]);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('signs again once the stored permit is about to expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const manager = new PermitManager({ store: new MemoryPermitStore(), durationDays: 1 });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    const first = await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]);
+    vi.setSystemTime(Date.now() + DAY - 30_000);
+    expect(isPermitExpired(first)).toBe(true);
+
+    const renewed = await manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]);
+
+    expect(renewed.privateKey).not.toBe(first.privateKey);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+    expect(await manager.pruneExpired()).toBe(0);
+  });
+
+  it('shares one signature between concurrent requests for the same scope', async () => {
+    const manager = new PermitManager({ store: new MemoryPermitStore() });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    const permits = await Promise.all([
+      manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]),
+      manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]),
+      manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]),
+    ]);
+
+    expect(new Set(permits).size).toBe(1);
+    expect(fhe.generateKeypair).toHaveBeenCalledTimes(1);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+  });
+
+  it('signs again after a rejected signature instead of sharing the failure', async () => {
+    const manager = new PermitManager({ store: new MemoryPermitStore() });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+    signer.signTypedData.mockRejectedValueOnce(new Error('user rejected'));
+
+    await expect(manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A])).rejects.toThrow('user rejected');
+    await expect(manager.getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A])).resolves.toMatchObject({ signature: 'signature' });
+  });
+
+  it('revokes permits by id and by user', async () => {
+    const manager = new PermitManager({ store: new MemoryPermitStore() });
+    const fhe = fakeFhe();
+    const alice = fakeSigner('0x000000000000000000000000000000000000a11c');
+    const bob = fakeSigner('0x0000000000000000000000000000000000000b0b');
+
+    const permit = await manager.getPermit(fhe, CHAIN_ID, alice, [CONTRACT_A]);
+    await manager.getPermit(fhe, CHAIN_ID, alice, [CONTRACT_B]);
+    await manager.getPermit(fhe, CHAIN_ID, bob, [CONTRACT_A]);
+
+    await manager.revokePermit(permit.id);
+    expect(await manager.revokeAll({ userAddress: await alice.getAddress() })).toBe(1);
+    expect((await manager.listPermits()).map(({ id }) => id)).toEqual([permitId(CHAIN_ID, await bob.getAddress(), [CONTRACT_A])]);
+  });
+
+  it('persists permits in IndexedDB by default', async () => {
+    const fhe = fakeFhe();
+    const signer = fakeSigner('0x00000000000000000000000000000000000000d1');
+
+    await new PermitManager().getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]);
+    await new PermitManager().getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(await new IndexedDbPermitStore().get(permitId(CHAIN_ID, await signer.getAddress(), [CONTRACT_A]))).toBeDefined();
+  });
+
+  it('keeps permits in memory only with persist: false', async () => {
+    const fhe = fakeFhe();
+    const signer = fakeSigner('0x00000000000000000000000000000000000000d2');
+
+    await new PermitManager({ persist: false }).getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]);
+    await new PermitManager({ persist: false }).getPermit(fhe, CHAIN_ID, signer, [CONTRACT_A]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+    expect(await new IndexedDbPermitStore().get(permitId(CHAIN_ID, await signer.getAddress(), [CONTRACT_A]))).toBeUndefined();
+  });
+
+  it('rejects a store combined with persist: false', () => {
+    expect(() => new PermitManager({ store: new MemoryPermitStore(), persist: false })).toThrow(InvalidInputError);
+  });
+});
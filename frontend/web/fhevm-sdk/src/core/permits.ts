@@ -0,0 +1,309 @@
+/**
+ * User Decryption Permits - Universal SDK
+ * Keeps the decryption keypair and the signed EIP-712 request per
+ * (chain, user, contract set), so users sign once per validity window
+ * instead of once per decryption.
+ *
+ * A permit holds the decryption private key in plaintext. Anyone who can read
+ * the store (same-origin scripts for IndexedDB, local users for a file store)
+ * can decrypt the user's handles until the permit expires. Pass
+ * `persist: false` to keep permits in memory only.
+ */
+
+import { openDB } from 'idb';
+import type { DBSchema, IDBPDatabase } from 'idb';
+import { InvalidInputError } from './errors.js';
+import { fhevmEvents } from './events.js';
+import { logger } from './logger.js';
+import { reportProgress } from './operation.js';
+import type { FhevmOperationOptions } from './operation.js';
+
+export const DEFAULT_PERMIT_DURATION_DAYS = 10;
+
+const DB_NAME = 'fhevm-sdk';
+const DB_VERSION = 1;
+const STORE_NAME = 'permits';
+
+/** Permits this close to expiry are re-signed rather than reused */
+const EXPIRY_MARGIN_SECONDS = 60;
+
+export interface DecryptionPermit {
+  id: string;
+  chainId: number;
+  userAddress: string;
+  /** Lowercased and sorted */
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  /** EIP-712 signature, without the 0x prefix (as userDecrypt expects) */
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface PermitRequestOptions {
+  /** Validity window for a newly signed permit */
+  durationDays?: number;
+  /** Extra contracts the permit should cover besides the ones being decrypted */
+  contractAddresses?: string[];
+}
+
+/**
+ * Storage backend for permits
+ */
+export interface PermitStore {
+  get(id: string): Promise<DecryptionPermit | undefined>;
+  put(permit: DecryptionPermit): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<DecryptionPermit[]>;
+}
+
+interface PermitDB extends DBSchema {
+  permits: {
+    key: string;
+    value: DecryptionPermit;
+  };
+}
+
+/**
+ * IndexedDB-backed store (browser default); permits, private keys included,
+ * are stored unencrypted
+ */
+export class IndexedDbPermitStore implements PermitStore {
+  private db: Promise<IDBPDatabase<PermitDB>> | null = null;
+
+  constructor(private dbName: string = DB_NAME) {}
+
+  private open() {
+    if (!this.db) {
+      this.db = openDB<PermitDB>(this.dbName, DB_VERSION, {
+        upgrade(db) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        },
+      });
+    }
+    return this.db;
+  }
+
+  async get(id: string) {
+    return (await this.open()).get(STORE_NAME, id);
+  }
+
+  async put(permit: DecryptionPermit) {
+    await (await this.open()).put(STORE_NAME, permit);
+  }
+
+  async delete(id: string) {
+    await (await this.open()).delete(STORE_NAME, id);
+  }
+
+  async list() {
+    return (await this.open()).getAll(STORE_NAME);
+  }
+}
+
+/**
+ * In-memory store (used with `persist: false` and where IndexedDB is unavailable, e.g. Node.js)
+ */
+export class MemoryPermitStore implements PermitStore {
+  private permits = new Map<string, DecryptionPermit>();
+
+  async get(id: string) {
+    return this.permits.get(id);
+  }
+
+  async put(permit: DecryptionPermit) {
+    this.permits.set(permit.id, permit);
+  }
+
+  async delete(id: string) {
+    this.permits.delete(id);
+  }
+
+  async list() {
+    return [...this.permits.values()];
+  }
+}
+
+function normalizeContracts(contractAddresses: string[]): string[] {
+  return [...new Set(contractAddresses.map((address) => address.toLowerCase()))].sort();
+}
+
+export function permitId(chainId: number, userAddress: string, contractAddresses: string[]): string {
+  return `${chainId}:${userAddress.toLowerCase()}:${normalizeContracts(contractAddresses).join(',')}`;
+}
+
+export function permitExpiresAt(permit: DecryptionPermit): number {
+  return permit.startTimestamp + permit.durationDays * 24 * 60 * 60;
+}
+
+export function isPermitExpired(permit: DecryptionPermit, now: number = Math.floor(Date.now() / 1000)): boolean {
+  return permitExpiresAt(permit) - EXPIRY_MARGIN_SECONDS <= now;
+}
+
+export interface PermitManagerOptions {
+  store?: PermitStore;
+  /** false keeps permits in memory only, so they are signed again after a reload (default true) */
+  persist?: boolean;
+  durationDays?: number;
+}
+
+export class PermitManager {
+  private store: PermitStore;
+  private defaultDurationDays: number;
+  // Concurrent requests for the same scope share one signature prompt
+  private pending = new Map<string, Promise<DecryptionPermit>>();
+
+  constructor(options?: PermitManagerOptions) {
+    if (options?.store && options.persist === false) {
+      throw new InvalidInputError('PermitManager: pass either a store or persist: false, not both');
+    }
+    this.store = options?.store
+      ?? (options?.persist !== false && typeof indexedDB !== 'undefined' ? new IndexedDbPermitStore() : new MemoryPermitStore());
+    this.defaultDurationDays = options?.durationDays ?? DEFAULT_PERMIT_DURATION_DAYS;
+  }
+
+  /**
+   * Return a valid permit for (chain, signer, contracts), signing a new one only when needed
+   *
+   * @param fhe - FHEVM instance used to generate the keypair and EIP-712 payload
+   * @param signer - ethers signer of the user
+   */
+  async getPermit(
+    fhe: any,
+    chainId: number,
+    signer: any,
+    contractAddresses: string[],
+    options?: PermitRequestOptions & Pick<FhevmOperationOptions, 'onProgress'>
+  ): Promise<DecryptionPermit> {
+    const userAddress = await signer.getAddress();
+    const scope = normalizeContracts([...contractAddresses, ...(options?.contractAddresses ?? [])]);
+    const id = permitId(chainId, userAddress, scope);
+
+    const stored = await this.findPermit(chainId, userAddress, scope);
+    if (stored) {
+      logger.info('♻️ Reusing stored decryption permit for', stored.contractAddresses);
+      fhevmEvents.emit('permit:reuse', { chainId, userAddress, contractAddresses: stored.contractAddresses, expiresAt: permitExpiresAt(stored) });
+      return stored;
+    }
+
+    reportProgress(options, 'user-decrypt', 'signing');
+    let pending = this.pending.get(id);
+    if (!pending) {
+      pending = this.signPermit(fhe, chainId, signer, userAddress, scope, options?.durationDays ?? this.defaultDurationDays)
+        .finally(() => this.pending.delete(id));
+      this.pending.set(id, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Unexpired stored permit for (chain, user) covering every given contract,
+   * possibly among others; the one expiring last when several match
+   */
+  async findPermit(chainId: number, userAddress: string, contractAddresses: string[]): Promise<DecryptionPermit | undefined> {
+    const scope = normalizeContracts(contractAddresses);
+    const exact = await this.store.get(permitId(chainId, userAddress, scope));
+    if (exact && !isPermitExpired(exact)) return exact;
+
+    let best: DecryptionPermit | undefined;
+    for (const permit of await this.listPermits({ userAddress, chainId })) {
+      if (isPermitExpired(permit) || !scope.every((address) => permit.contractAddresses.includes(address))) continue;
+      if (!best || permitExpiresAt(permit) > permitExpiresAt(best)) best = permit;
+    }
+    return best;
+  }
+
+  private async signPermit(
+    fhe: any,
+    chainId: number,
+    signer: any,
+    userAddress: string,
+    contractAddresses: string[],
+    durationDays: number
+  ): Promise<DecryptionPermit> {
+    // Worker mode generates the keypair off the main thread
+    const keypair = typeof fhe.generateKeypairAsync === 'function' ? await fhe.generateKeypairAsync() : fhe.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    const eip712 = fhe.createEIP712(
+      keypair.publicKey,
+      contractAddresses,
+      startTimestamp,
+      durationDays
+    );
+
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    const permit: DecryptionPermit = {
+      id: permitId(chainId, userAddress, contractAddresses),
+      chainId,
+      userAddress,
+      contractAddresses,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace("0x", ""),
+      startTimestamp,
+      durationDays,
+    };
+
+    await this.store.put(permit);
+    logger.info('✅ Decryption permit signed and stored');
+    fhevmEvents.emit('permit:signed', { chainId, userAddress, contractAddresses, expiresAt: permitExpiresAt(permit) });
+    return permit;
+  }
+
+  /**
+   * Stored permits, optionally filtered by user and/or chain
+   */
+  async listPermits(filter?: { userAddress?: string; chainId?: number }): Promise<DecryptionPermit[]> {
+    const permits = await this.store.list();
+    return permits.filter((permit) =>
+      (!filter?.userAddress || permit.userAddress.toLowerCase() === filter.userAddress.toLowerCase()) &&
+      (filter?.chainId === undefined || permit.chainId === filter.chainId)
+    );
+  }
+
+  async revokePermit(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  /**
+   * Revoke every stored permit matching the filter (all permits when omitted)
+   */
+  async revokeAll(filter?: { userAddress?: string; chainId?: number }): Promise<number> {
+    const permits = await this.listPermits(filter);
+    // One at a time: file-backed stores rewrite the whole file on every delete
+    for (const permit of permits) await this.store.delete(permit.id);
+    return permits.length;
+  }
+
+  /**
+   * Drop permits that can no longer be used
+   */
+  async pruneExpired(): Promise<number> {
+    const expired = (await this.store.list()).filter((permit) => isPermitExpired(permit));
+    for (const permit of expired) await this.store.delete(permit.id);
+    return expired.length;
+  }
+}
+
+let defaultPermitManager: PermitManager | null = null;
+
+/**
+ * Permit manager shared by clients that were not given their own
+ */
+export function getDefaultPermitManager(): PermitManager {
+  if (!defaultPermitManager) defaultPermitManager = new PermitManager();
+  return defaultPermitManager;
+}
+
+export function setDefaultPermitManager(manager: PermitManager): void {
+  defaultPermitManager = manager;
+}
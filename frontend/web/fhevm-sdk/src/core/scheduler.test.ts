@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import type { HandleContractPair } from './batch.js';
+import { FhevmAbortError, InvalidHandleError } from './errors.js';
+import type { ClearValue } from './input.js';
+import type { DecryptionPermit } from './permits.js';
+import { DecryptScheduler } from './scheduler.js';
+import type { StoredPermitLookup, UserDecryptRunner } from './scheduler.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const OTHER_CONTRACT = '0x2222222222222222222222222222222222222222';
+
+// euint32 input handle on chain 31337
+function makeHandle(seed: number): string {
+  return ethers.concat([ethers.zeroPadValue(ethers.toBeHex(seed), 21), '0x00', ethers.toBeHex(31337, 8), '0x04', '0x00']);
+}
+
+function pair(seed: number, contractAddress = CONTRACT): HandleContractPair {
+  return { handle: makeHandle(seed), contractAddress };
+}
+
+// Lookup answering from a fixed list of stored permits (contract sets only)
+function storedPermits(...scopes: string[][]): StoredPermitLookup {
+  return async (contractAddresses) => {
+    const scope = scopes.find((contracts) => contractAddresses.every((address) => contracts.includes(address.toLowerCase())));
+    return scope && ({ id: scope.join(','), contractAddresses: scope } as DecryptionPermit);
+  };
+}
+
+// Runner answering each handle with its seed; `hold` keeps requests open until released
+function fakeRunner({ hold = false } = {}) {
+  const releases: Array<() => void> = [];
+  const run = vi.fn<UserDecryptRunner>(async (pairs, _contracts, _signer, options) => {
+    if (hold) {
+      await new Promise<void>((resolve, reject) => {
+        releases.push(resolve);
+        options?.signal?.addEventListener('abort', () => reject(new FhevmAbortError()));
+      });
+    }
+    return Object.fromEntries(pairs.map(({ handle }) => [handle, BigInt(handle.slice(0, 44))] as [string, ClearValue]));
+  });
+  return { run, release: () => releases.shift()?.() };
+}
+
+describe('DecryptScheduler', () => {
+  it('coalesces calls made within the window into one request', async () => {
+    const { run } = fakeRunner();
+    const scheduler = new DecryptScheduler(run, { windowMs: 5 });
+
+    const results = await Promise.all([
+      scheduler.decrypt(pair(1)),
+      scheduler.decrypt(pair(2)),
+      scheduler.decrypt(pair(1)),
+    ]);
+
+    expect(results).toEqual([1n, 2n, 1n]);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run.mock.calls[0][0].map(({ handle }) => handle)).toEqual([makeHandle(1), makeHandle(2)]);
+    expect(scheduler.pendingCount).toBe(0);
+  });
+
+  it('sends calls with different permit options as separate requests', async () => {
+    const { run } = fakeRunner();
+    const scheduler = new DecryptScheduler(run, { windowMs: 5 });
+
+    await Promise.all([scheduler.decrypt(pair(1), undefined, { durationDays: 1 }), scheduler.decrypt(pair(1), undefined, { durationDays: 2 })]);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('caps the number of requests running at once', async () => {
+    const { run, release } = fakeRunner({ hold: true });
+    const scheduler = new DecryptScheduler(run, { windowMs: 0, maxConcurrency: 1 });
+
+    const first = scheduler.decrypt(pair(1), undefined, { durationDays: 1 });
+    const second = scheduler.decrypt(pair(2), undefined, { durationDays: 2 });
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(1));
+
+    release();
+    await expect(first).resolves.toBe(1n);
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(2));
+
+    release();
+    await expect(second).resolves.toBe(2n);
+  });
+
+  it('drops a handle from its batch once every caller aborted', async () => {
+    const { run } = fakeRunner();
+    const scheduler = new DecryptScheduler(run, { windowMs: 5 });
+    const controller = new AbortController();
+
+    const aborted = scheduler.decrypt(pair(1), undefined, { signal: controller.signal });
+    const kept = scheduler.decrypt(pair(2));
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(FhevmAbortError);
+    await expect(kept).resolves.toBe(2n);
+    expect(run.mock.calls[0][0]).toEqual([pair(2)]);
+  });
+
+  it('keeps a shared handle while another caller still waits on it', async () => {
+    const { run } = fakeRunner();
+    const scheduler = new DecryptScheduler(run, { windowMs: 5 });
+    const controller = new AbortController();
+
+    const aborted = scheduler.decrypt(pair(1), undefined, { signal: controller.signal });
+    const kept = scheduler.decrypt(pair(1));
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(FhevmAbortError);
+    await expect(kept).resolves.toBe(1n);
+  });
+
+  it('aborts a running request once all of its callers aborted', async () => {
+    const { run } = fakeRunner({ hold: true });
+    const scheduler = new DecryptScheduler(run, { windowMs: 0 });
+    const controller = new AbortController();
+
+    const aborted = scheduler.decrypt(pair(1), undefined, { signal: controller.signal });
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(FhevmAbortError);
+    expect(run.mock.calls[0][3]?.signal?.aborted).toBe(true);
+  });
+
+  it('rejects a malformed handle without queueing it', async () => {
+    const { run } = fakeRunner();
+    const scheduler = new DecryptScheduler(run, { windowMs: 5 });
+
+    await expect(scheduler.decrypt({ handle: ethers.ZeroHash, contractAddress: CONTRACT })).rejects.toBeInstanceOf(InvalidHandleError);
+    expect(scheduler.pendingCount).toBe(0);
+  });
+
+  it('keeps contracts with separate stored permits in separate requests', async () => {
+    const { run } = fakeRunner();
+    const scheduler = new DecryptScheduler(run, { windowMs: 5 }, storedPermits([CONTRACT], [OTHER_CONTRACT]));
+
+    await Promise.all([scheduler.decrypt(pair(1)), scheduler.decrypt(pair(2, OTHER_CONTRACT))]);
+
+    expect(run.mock.calls.map(([, contractAddresses]) => contractAddresses)).toEqual([[CONTRACT], [OTHER_CONTRACT]]);
+  });
+
+  it('merges contracts covered by the same stored permit', async () => {
+    const { run } = fakeRunner();
+    const scheduler = new DecryptScheduler(run, { windowMs: 5 }, storedPermits([CONTRACT, OTHER_CONTRACT]));
+
+    await Promise.all([scheduler.decrypt(pair(1)), scheduler.decrypt(pair(2, OTHER_CONTRACT))]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run.mock.calls[0][1]).toEqual([CONTRACT, OTHER_CONTRACT]);
+  });
+
+  it('merges contracts that have no stored permit into one new permit', async () => {
+    const { run } = fakeRunner();
+    const scheduler = new DecryptScheduler(run, { windowMs: 5 }, storedPermits());
+
+    await Promise.all([scheduler.decrypt(pair(1)), scheduler.decrypt(pair(2, OTHER_CONTRACT))]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
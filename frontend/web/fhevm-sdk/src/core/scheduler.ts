@@ -0,0 +1,294 @@
+/**
+ * Decryption Scheduler - Universal SDK
+ * Collects single-handle decrypt calls made within a short window into one
+ * userDecrypt batch, shares in-flight requests for the same handle and caps
+ * how many relayer requests run at once. A handle is dropped from its batch
+ * (or its request aborted) only once every caller waiting on it has aborted.
+ * Contracts already covered by different stored permits are never merged into
+ * a new permit scope, so batching never costs an extra signature.
+ */
+
+import { planUserDecryptBatches } from './batch.js';
+import type { HandleContractPair } from './batch.js';
+import { FhevmAbortError, RelayerUnavailableError } from './errors.js';
+import { parseHandle } from './handles.js';
+import type { ClearValue } from './input.js';
+import { raceAbort, throwIfAborted } from './operation.js';
+import type { FhevmOperationOptions, FhevmProgress } from './operation.js';
+import type { DecryptionPermit, PermitRequestOptions } from './permits.js';
+
+export interface DecryptSchedulerOptions {
+  /** Relayer requests running at the same time (default 4) */
+  maxConcurrency?: number;
+  /** How long calls are collected before a batch is sent (default 10ms) */
+  windowMs?: number;
+}
+
+/**
+ * One userDecrypt request under one permit (the client's private userDecrypt)
+ */
+export type UserDecryptRunner = (
+  pairs: HandleContractPair[],
+  contractAddresses: string[],
+  signer: any,
+  options?: PermitRequestOptions & FhevmOperationOptions
+) => Promise<Record<string, ClearValue>>;
+
+/**
+ * Stored, unexpired permit the signer could reuse for these contracts
+ * (the client's PermitManager.findPermit)
+ */
+export type StoredPermitLookup = (contractAddresses: string[], signer: any) => Promise<DecryptionPermit | undefined>;
+
+// One handle, shared by every caller waiting on it
+interface QueuedDecrypt {
+  key: string;
+  pair: HandleContractPair;
+  promise: Promise<ClearValue>;
+  resolve: (value: ClearValue) => void;
+  reject: (error: unknown) => void;
+  /** Callers that have not aborted */
+  waiting: number;
+  progressListeners: Set<(progress: FhevmProgress) => void>;
+  group: DecryptGroup;
+  /** Set once the handle's request is running */
+  request?: RunningRequest;
+}
+
+interface RunningRequest {
+  controller: AbortController;
+  callers: QueuedDecrypt[];
+}
+
+// Calls that can share a permit: same signer and permit options
+interface DecryptGroup {
+  signer: any;
+  options?: PermitRequestOptions;
+  queued: QueuedDecrypt[];
+}
+
+function pairKey(pair: HandleContractPair) {
+  return `${pair.contractAddress.toLowerCase()}:${pair.handle.toLowerCase()}`;
+}
+
+export class DecryptScheduler {
+  private maxConcurrency: number;
+  private windowMs: number;
+  // group key -> calls waiting for the window to close
+  private groups = new Map<string, DecryptGroup>();
+  // group key + pair key -> shared result
+  private inFlight = new Map<string, QueuedDecrypt>();
+  private signerIds = new WeakMap<object, number>();
+  private nextSignerId = 1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(
+    private run: UserDecryptRunner,
+    options: DecryptSchedulerOptions = {},
+    private findStoredPermit?: StoredPermitLookup
+  ) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+    this.windowMs = options.windowMs ?? 10;
+  }
+
+  /**
+   * Decrypt one handle; resolves with this handle's value once its batch returns
+   */
+  decrypt(
+    pair: HandleContractPair,
+    signer?: any,
+    options?: PermitRequestOptions & FhevmOperationOptions
+  ): Promise<ClearValue> {
+    const { signal, onProgress, ...permitOptions } = options ?? {};
+    try {
+      throwIfAborted(signal);
+      // Malformed handles fail their own call instead of the whole batch
+      parseHandle(pair.handle);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const groupKey = this.groupKey(signer, permitOptions);
+    const key = `${groupKey}|${pairKey(pair)}`;
+    const queued = this.inFlight.get(key) ?? this.enqueue(key, groupKey, pair, signer, permitOptions);
+
+    queued.waiting++;
+    if (onProgress) queued.progressListeners.add(onProgress);
+    if (!signal) return queued.promise;
+
+    const release = () => {
+      if (onProgress) queued.progressListeners.delete(onProgress);
+      if (--queued.waiting === 0) this.abandon(queued);
+    };
+    signal.addEventListener('abort', release, { once: true });
+    const done = () => signal.removeEventListener('abort', release);
+    queued.promise.then(done, done);
+    return raceAbort(queued.promise, signal);
+  }
+
+  /** Distinct handles queued or being decrypted */
+  get pendingCount(): number {
+    return this.inFlight.size;
+  }
+
+  private enqueue(key: string, groupKey: string, pair: HandleContractPair, signer: any, options: PermitRequestOptions) {
+    let group = this.groups.get(groupKey);
+    if (!group) {
+      group = { signer, options, queued: [] };
+      this.groups.set(groupKey, group);
+    }
+
+    let resolve!: (value: ClearValue) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<ClearValue>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const queued: QueuedDecrypt = { key, pair, promise, resolve, reject, waiting: 0, progressListeners: new Set(), group };
+    // Also keeps handles that every caller abandoned from rejecting unhandled
+    promise.then(() => this.forget(queued), () => this.forget(queued));
+
+    group.queued.push(queued);
+    this.inFlight.set(key, queued);
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.windowMs);
+    }
+    return queued;
+  }
+
+  private forget(queued: QueuedDecrypt) {
+    if (this.inFlight.get(queued.key) === queued) this.inFlight.delete(queued.key);
+  }
+
+  // Every caller of this handle aborted: drop it from its batch, or abort its
+  // request once no caller of that request is left
+  private abandon(queued: QueuedDecrypt) {
+    this.forget(queued);
+    const index = queued.group.queued.indexOf(queued);
+    if (index !== -1) queued.group.queued.splice(index, 1);
+    queued.reject(new FhevmAbortError());
+
+    const request = queued.request;
+    if (request && request.callers.every((caller) => caller.waiting === 0)) {
+      request.controller.abort();
+    }
+  }
+
+  private groupKey(signer: any, options?: PermitRequestOptions) {
+    let signerId = 0;
+    if (signer && typeof signer === 'object') {
+      signerId = this.signerIds.get(signer) ?? this.nextSignerId++;
+      this.signerIds.set(signer, signerId);
+    }
+    const extraContracts = (options?.contractAddresses ?? []).map((address) => address.toLowerCase()).sort().join(',');
+    return `${signerId}|${options?.durationDays ?? ''}|${extraContracts}`;
+  }
+
+  private flush() {
+    this.timer = null;
+    const groups = [...this.groups.values()];
+    this.groups.clear();
+
+    for (const group of groups) {
+      if (group.queued.length === 0) continue;
+      void this.flushGroup(group);
+    }
+  }
+
+  private async flushGroup(group: DecryptGroup) {
+    const partitions = await this.partitionByPermit(group);
+    // Callers may have aborted during the lookup
+    const byPair = new Map(group.queued.map((queued) => [pairKey(queued.pair), queued]));
+
+    for (const pairs of partitions) {
+      const remaining = pairs.filter((pair) => byPair.has(pairKey(pair)));
+      if (remaining.length === 0) continue;
+      for (const batch of planUserDecryptBatches(remaining)) {
+        for (const request of batch.requests) {
+          const callers = request.map((pair) => byPair.get(pairKey(pair))!);
+          const running = { controller: new AbortController(), callers };
+          for (const caller of callers) caller.request = running;
+          this.schedule(() => this.runRequest(request, batch.contractAddresses, group, running));
+        }
+      }
+    }
+  }
+
+  // Contracts covered by the same stored permit share a batch; contracts with
+  // no stored permit share one new permit. Merging contracts that already have
+  // separate permits would ask for a signature that decrypting them one after
+  // another does not.
+  private async partitionByPermit(group: DecryptGroup): Promise<HandleContractPair[][]> {
+    const pairs = group.queued.map((queued) => queued.pair);
+    if (!this.findStoredPermit) return [pairs];
+
+    const byContract = new Map<string, HandleContractPair[]>();
+    for (const pair of pairs) {
+      const contractAddress = pair.contractAddress.toLowerCase();
+      byContract.set(contractAddress, [...(byContract.get(contractAddress) ?? []), pair]);
+    }
+    if (byContract.size === 1) return [pairs];
+
+    const partitions = new Map<string, HandleContractPair[]>();
+    const extraContracts = group.options?.contractAddresses ?? [];
+    for (const [contractAddress, contractPairs] of byContract) {
+      let permit: DecryptionPermit | undefined;
+      try {
+        permit = await this.findStoredPermit([contractAddress, ...extraContracts], group.signer);
+      } catch {
+        // Unreadable store: the contract goes with the ones needing a new permit
+      }
+      const key = permit?.id ?? '';
+      partitions.set(key, [...(partitions.get(key) ?? []), ...contractPairs]);
+    }
+    return [...partitions.values()];
+  }
+
+  private async runRequest(
+    request: HandleContractPair[],
+    contractAddresses: string[],
+    group: DecryptGroup,
+    { controller, callers }: RunningRequest
+  ) {
+    // Callers may all have aborted while the request waited for a slot
+    if (controller.signal.aborted) return;
+
+    const onProgress = (progress: FhevmProgress) => {
+      for (const caller of callers) {
+        for (const listener of caller.progressListeners) listener(progress);
+      }
+    };
+
+    try {
+      const result = await this.run(request, contractAddresses, group.signer, { ...group.options, signal: controller.signal, onProgress });
+      for (const caller of callers) {
+        const value = result[caller.pair.handle] ?? result[caller.pair.handle.toLowerCase()];
+        if (value === undefined) {
+          caller.reject(new RelayerUnavailableError(`Invalid userDecrypt result structure: no value for ${caller.pair.handle}`));
+        } else {
+          caller.resolve(value);
+        }
+      }
+    } catch (error) {
+      for (const caller of callers) caller.reject(error);
+    }
+  }
+
+  // Run now if a slot is free, otherwise when one frees up
+  private schedule(task: () => Promise<void>) {
+    const start = () => {
+      this.running++;
+      task().finally(() => {
+        this.running--;
+        this.waiting.shift()?.();
+      });
+    };
+    if (this.running < this.maxConcurrency) {
+      start();
+    } else {
+      this.waiting.push(start);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ContractRevertError, InvalidInputError } from './errors.js';
+import { setLogLevel } from './logger.js';
+import { decodeContractRevert, simulateCall } from './simulate.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const OWNER = '0x2222222222222222222222222222222222222222';
+
+const iface = new ethers.Interface([
+  'function store(uint32 value) returns (uint32)',
+  'error NotOwner(address account)',
+]);
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const errorString = (reason: string) => ethers.concat(['0x08c379a0', coder.encode(['string'], [reason])]);
+const panic = (code: number) => ethers.concat(['0x4e487b71', coder.encode(['uint256'], [code])]);
+const notOwner = iface.encodeErrorResult('NotOwner', [OWNER]);
+
+// Contract whose runner answers eth_call with `call` and quotes the given fee data
+function contractWith(call: (tx: ethers.TransactionRequest) => Promise<string>, feeData = new ethers.FeeData(null, 30n, 2n)) {
+  const runner = {
+    provider: { getFeeData: async () => feeData },
+    call,
+    estimateGas: vi.fn(async () => 50_000n),
+    sendTransaction: vi.fn(async (tx: ethers.TransactionRequest) => ({ hash: '0xabc', ...tx })),
+  };
+  const contract = new ethers.Contract(CONTRACT, iface, runner as unknown as ethers.ContractRunner);
+  return { contract, runner };
+}
+
+describe('decodeContractRevert', () => {
+  it('decodes Error(string) wherever the wallet nested it', () => {
+    const revert = decodeContractRevert({ info: { error: { data: errorString('Only owner') } } });
+
+    expect(revert).toBeInstanceOf(ContractRevertError);
+    expect(revert).toMatchObject({ reason: 'Only owner', message: 'Contract call reverted: Only owner' });
+  });
+
+  it('decodes panics', () => {
+    const revert = decodeContractRevert({ error: { data: { data: panic(0x11) } } });
+
+    expect(revert).toMatchObject({ panicCode: 0x11n, message: 'Contract call reverted with panic 0x11' });
+  });
+
+  it('decodes custom errors against the contract interface', () => {
+    const revert = decodeContractRevert({ data: notOwner }, iface);
+
+    expect(revert).toMatchObject({ errorName: 'NotOwner', errorSignature: 'NotOwner(address)', errorArgs: [OWNER] });
+    expect(revert?.message).toBe('Contract call reverted with NotOwner(address)');
+  });
+
+  it('keeps custom error data raw without an interface', () => {
+    const revert = decodeContractRevert({ data: notOwner });
+
+    expect(revert).toMatchObject({ errorName: undefined, data: notOwner });
+    expect(revert?.message).toMatch(/unknown error data 0x/);
+  });
+
+  it("falls back to the node's reason when there is no revert data", () => {
+    expect(decodeContractRevert({ code: 'CALL_EXCEPTION', reason: 'paused' })?.reason).toBe('paused');
+    expect(decodeContractRevert({ code: 'CALL_EXCEPTION' })?.message).toBe('Contract call reverted without a reason');
+  });
+
+  it('returns null for errors that are not reverts', () => {
+    expect(decodeContractRevert(new Error('network down'))).toBeNull();
+  });
+});
+
+describe('simulateCall', () => {
+  beforeAll(() => {
+    setLogLevel('silent');
+  });
+
+  it('returns the static result and an EIP-1559 fee estimate', async () => {
+    const { contract } = contractWith(async () => coder.encode(['uint32'], [7]));
+
+    const simulation = await simulateCall(contract, contract.getFunction('store'), [7]);
+
+    expect(simulation.result).toBe(7n);
+    expect(simulation.args).toEqual([7]);
+    expect(simulation.fee).toEqual({ gasLimit: 50_000n, maxFeePerGas: 30n, maxPriorityFeePerGas: 2n, gasPrice: undefined, maxFee: 1_500_000n });
+  });
+
+  it('prices the fee from the gas price on legacy chains', async () => {
+    const { contract } = contractWith(async () => coder.encode(['uint32'], [7]), new ethers.FeeData(5n, null, null));
+
+    const { fee } = await simulateCall(contract, contract.getFunction('store'), [7]);
+
+    expect(fee).toMatchObject({ maxFeePerGas: undefined, gasPrice: 5n, maxFee: 250_000n });
+  });
+
+  it('sends the simulated call with the same arguments', async () => {
+    const { contract, runner } = contractWith(async () => coder.encode(['uint32'], [7]));
+
+    const simulation = await simulateCall(contract, contract.getFunction('store'), [7]);
+    await simulation.send();
+
+    expect(runner.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      to: CONTRACT,
+      data: iface.encodeFunctionData('store', [7]),
+    }));
+  });
+
+  it('throws a decoded ContractRevertError before estimating gas', async () => {
+    const { contract, runner } = contractWith(async () => {
+      throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: notOwner, reason: null, transaction: { to: CONTRACT, data: '0x' }, invocation: null, revert: null });
+    });
+
+    const simulating = simulateCall(contract, contract.getFunction('store'), [7]);
+
+    await expect(simulating).rejects.toBeInstanceOf(ContractRevertError);
+    await expect(simulating).rejects.toMatchObject({ errorName: 'NotOwner', errorArgs: [OWNER] });
+    expect(runner.estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('needs a contract connected to a provider', async () => {
+    const contract = new ethers.Contract(CONTRACT, iface);
+
+    await expect(simulateCall(contract, contract.getFunction('store'), [7])).rejects.toBeInstanceOf(InvalidInputError);
+  });
+});
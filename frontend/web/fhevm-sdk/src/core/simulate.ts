@@ -0,0 +1,131 @@
+/**
+ * Transaction Simulation - Universal SDK
+ * Dry-runs a contract call with staticCall and estimateGas before the wallet
+ * prompt. Reverts are decoded against the contract ABI into
+ * ContractRevertError, and the fee is estimated from the current fee data.
+ */
+
+import { ethers } from "ethers";
+import { ContractRevertError, InvalidInputError, toFhevmError } from './errors.js';
+import type { ContractRevertDetails } from './errors.js';
+import { logger } from './logger.js';
+
+// Selectors of the built-in Error(string) and Panic(uint256)
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+export interface FeeEstimate {
+  gasLimit: bigint;
+  /** EIP-1559 fee caps; undefined on legacy-fee chains */
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  /** Legacy gas price */
+  gasPrice?: bigint;
+  /** Most the transaction can cost, in wei: gasLimit x (maxFeePerGas or gasPrice) */
+  maxFee: bigint;
+}
+
+export interface SimulationResult<R = any> {
+  /** Return value of the call, from staticCall */
+  result: R;
+  fee: FeeEstimate;
+  /** Arguments the call was simulated with, encrypted handles and proof included */
+  args: unknown[];
+  /** Send the simulated call as a transaction, reusing the same encrypted inputs */
+  send(): Promise<ethers.ContractTransactionResponse>;
+}
+
+// Wallets and nodes nest the revert data differently
+function findRevertData(error: any): string | undefined {
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data, error?.cause?.data];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate)) return candidate;
+    if (typeof candidate?.data === 'string' && ethers.isHexString(candidate.data)) return candidate.data;
+  }
+  return undefined;
+}
+
+function decodeRevertData(data: string, iface?: ethers.Interface): ContractRevertDetails {
+  if (ethers.dataLength(data) < 4) return { data };
+  const selector = ethers.dataSlice(data, 0, 4);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  try {
+    if (selector === ERROR_STRING_SELECTOR) return { reason: coder.decode(['string'], ethers.dataSlice(data, 4))[0], data };
+    if (selector === PANIC_SELECTOR) return { panicCode: coder.decode(['uint256'], ethers.dataSlice(data, 4))[0], data };
+    const parsed = iface?.parseError(data);
+    if (parsed) return { errorName: parsed.name, errorSignature: parsed.signature, errorArgs: [...parsed.args], data };
+  } catch {
+    // Malformed or unknown error data: keep it raw
+  }
+  return { data };
+}
+
+function describeRevert(details: ContractRevertDetails): string {
+  if (details.reason) return `Contract call reverted: ${details.reason}`;
+  if (details.errorSignature) return `Contract call reverted with ${details.errorSignature}`;
+  if (details.panicCode !== undefined) return `Contract call reverted with panic 0x${details.panicCode.toString(16)}`;
+  if (details.data && details.data !== '0x') return `Contract call reverted with unknown error data ${details.data}`;
+  return 'Contract call reverted without a reason';
+}
+
+/**
+ * Decode a reverted call into ContractRevertError; null when the error is not a revert
+ *
+ * @param iface - contract interface used to decode custom errors
+ */
+export function decodeContractRevert(error: unknown, iface?: ethers.Interface): ContractRevertError | null {
+  const data = findRevertData(error);
+  if (data === undefined && (error as any)?.code !== 'CALL_EXCEPTION') return null;
+
+  const details = data ? decodeRevertData(data, iface) : {};
+  // Nodes that return no revert data may still report the reason
+  if (!details.reason && !details.errorName && details.panicCode === undefined && (error as any)?.reason) {
+    details.reason = (error as any).reason;
+  }
+  return new ContractRevertError(describeRevert(details), details, { cause: error });
+}
+
+/**
+ * Run a contract method with staticCall and estimateGas and estimate its fee.
+ * Throws ContractRevertError when the call would revert.
+ *
+ * @param args - method arguments, optionally followed by overrides
+ */
+export async function simulateCall<R = any>(
+  contract: ethers.BaseContract,
+  method: ethers.BaseContractMethod,
+  args: unknown[]
+): Promise<SimulationResult<R>> {
+  const name = method.fragment.name;
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new InvalidInputError(`Simulating ${name} needs a contract connected to a provider`);
+  }
+
+  logger.info(`🧪 Simulating ${name}`);
+  let result: R;
+  let gasLimit: bigint;
+  try {
+    result = await method.staticCall(...args);
+    gasLimit = await method.estimateGas(...args);
+  } catch (error) {
+    const revert = decodeContractRevert(error, contract.interface);
+    if (!revert) throw toFhevmError(error);
+    logger.warn(`⚠️ ${name} would revert: ${revert.message}`);
+    throw revert;
+  }
+
+  const feeData = await provider.getFeeData();
+  const maxFeePerGas = feeData.maxFeePerGas ?? undefined;
+  const gasPrice = feeData.gasPrice ?? undefined;
+  const fee: FeeEstimate = {
+    gasLimit,
+    maxFeePerGas,
+    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? undefined,
+    gasPrice,
+    maxFee: gasLimit * (maxFeePerGas ?? gasPrice ?? 0n),
+  };
+  logger.info(`✅ ${name} simulated: ${gasLimit} gas, at most ${ethers.formatEther(fee.maxFee)} ETH`);
+
+  return { result, fee, args, send: () => method.send(...args) };
+}
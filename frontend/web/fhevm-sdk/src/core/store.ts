@@ -0,0 +1,140 @@
+/**
+ * SDK State Store - Universal SDK
+ * One observable store for wallet, instance, permit and pending-operation
+ * state, so every hook or composable sees the same values. Framework
+ * adapters read it through subscribe/getSnapshot (React: useSyncExternalStore).
+ */
+
+import { fhevmEvents } from './events.js';
+import { toFhevmError } from './errors.js';
+import type { FhevmError } from './errors.js';
+import type { FhevmMode } from './client.js';
+
+export type FhevmStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export type FhevmOperationKind = 'encrypt' | 'decrypt';
+
+export interface WalletState {
+  address: string;
+  chainId: number;
+  isConnected: boolean;
+  isConnecting: boolean;
+  error: FhevmError | null;
+}
+
+export interface InstanceState {
+  status: FhevmStatus;
+  instance: any;
+  chainId: number | null;
+  mode: FhevmMode | null;
+  error: FhevmError | null;
+}
+
+export interface PermitSummary {
+  chainId: number;
+  userAddress: string;
+  contractAddresses: string[];
+  expiresAt: number;
+  /** True when a stored permit was reused rather than signed */
+  reused: boolean;
+}
+
+export interface PermitState {
+  /** Permit behind the latest user decryption */
+  lastUsed: PermitSummary | null;
+}
+
+export interface OperationState {
+  /** Operations of this kind currently running */
+  pending: number;
+  /** Error of the latest failed operation, cleared when a new one starts */
+  error: FhevmError | null;
+}
+
+export interface FhevmState {
+  wallet: WalletState;
+  instance: InstanceState;
+  permit: PermitState;
+  operations: Record<FhevmOperationKind, OperationState>;
+}
+
+type StateUpdate = { [K in keyof FhevmState]?: Partial<FhevmState[K]> };
+
+export const INITIAL_FHEVM_STATE: FhevmState = {
+  wallet: { address: '', chainId: 0, isConnected: false, isConnecting: false, error: null },
+  instance: { status: 'idle', instance: null, chainId: null, mode: null, error: null },
+  permit: { lastUsed: null },
+  operations: {
+    encrypt: { pending: 0, error: null },
+    decrypt: { pending: 0, error: null },
+  },
+};
+
+export class FhevmStore {
+  private state: FhevmState;
+  private listeners = new Set<() => void>();
+
+  constructor(initialState: FhevmState = INITIAL_FHEVM_STATE) {
+    this.state = initialState;
+  }
+
+  /**
+   * Current state; a new object after every change and the same object otherwise
+   */
+  getSnapshot = (): FhevmState => this.state;
+
+  /**
+   * Call the listener after every change; returns the unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Shallow-merge updates into each slice and notify subscribers
+   */
+  setState(update: StateUpdate): void {
+    const next = { ...this.state };
+    for (const key of Object.keys(update) as Array<keyof FhevmState>) {
+      next[key] = { ...this.state[key], ...update[key] } as any;
+    }
+    this.state = next;
+    for (const listener of [...this.listeners]) listener();
+  }
+
+  /**
+   * Run an operation with its pending count and error tracked in the store
+   */
+  async runOperation<T>(kind: FhevmOperationKind, run: () => Promise<T>): Promise<T> {
+    this.updateOperation(kind, (current) => ({ pending: current.pending + 1, error: null }));
+    try {
+      return await run();
+    } catch (err) {
+      const error = toFhevmError(err);
+      // A cancelled operation is not a failure worth showing
+      if (error.code !== 'ABORTED') this.updateOperation(kind, (current) => ({ ...current, error }));
+      throw error;
+    } finally {
+      this.updateOperation(kind, (current) => ({ ...current, pending: current.pending - 1 }));
+    }
+  }
+
+  reset(): void {
+    this.state = INITIAL_FHEVM_STATE;
+    for (const listener of [...this.listeners]) listener();
+  }
+
+  private updateOperation(kind: FhevmOperationKind, update: (current: OperationState) => OperationState) {
+    this.setState({ operations: { ...this.state.operations, [kind]: update(this.state.operations[kind]) } });
+  }
+}
+
+/** Store shared by the free functions and the framework adapters */
+export const fhevmStore = new FhevmStore();
+
+// Permit usage is reported by the permit manager through lifecycle events
+fhevmEvents.on('permit:reuse', (event) => fhevmStore.setState({ permit: { lastUsed: { ...event, reused: true } } }));
+fhevmEvents.on('permit:signed', (event) => fhevmStore.setState({ permit: { lastUsed: { ...event, reused: false } } }));
@@ -0,0 +1,205 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmAbortError } from './errors.js';
+import { setLogLevel } from './logger.js';
+import { TransactionTracker } from './transactions.js';
+import type { TrackedTransaction, TransactionTrackerOptions } from './transactions.js';
+
+const USER = '0x1111111111111111111111111111111111111111';
+const CONTRACT = '0x2222222222222222222222222222222222222222';
+const CALLDATA = '0xa9059cbb';
+
+interface FakeTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  to: string | null;
+  value: bigint;
+  data: string;
+}
+
+function makeTransaction(seed: number, overrides: Partial<FakeTransaction> = {}): FakeTransaction {
+  return { hash: ethers.zeroPadValue(ethers.toBeHex(seed), 32), from: USER, nonce: 0, to: CONTRACT, value: 0n, data: CALLDATA, ...overrides };
+}
+
+// Node that answers the tracker's polls from a mempool, mined blocks and receipts
+class FakeChain {
+  blockNumber = 10;
+  private known = new Map<string, FakeTransaction>();
+  private blocks = new Map<number, FakeTransaction[]>();
+  private receipts = new Map<string, { status: number; blockNumber: number }>();
+  private nonces = new Map<string, number>();
+
+  constructor(private chainId: number) {}
+
+  send(tx: FakeTransaction) {
+    this.known.set(tx.hash, tx);
+    return tx as unknown as ethers.TransactionResponse;
+  }
+
+  mine(tx: FakeTransaction, status = 1) {
+    this.known.set(tx.hash, tx);
+    this.blockNumber++;
+    this.blocks.set(this.blockNumber, [tx]);
+    this.receipts.set(tx.hash, { status, blockNumber: this.blockNumber });
+    this.nonces.set(tx.from.toLowerCase(), tx.nonce + 1);
+  }
+
+  // The node forgets a pending transaction, e.g. evicted from its mempool
+  evict(hash: string) {
+    this.known.delete(hash);
+  }
+
+  provider = {
+    getNetwork: async () => ({ chainId: BigInt(this.chainId) }),
+    getBlockNumber: async () => this.blockNumber,
+    getTransaction: async (hash: string) => this.known.get(hash) ?? null,
+    getTransactionReceipt: async (hash: string) => {
+      const receipt = this.receipts.get(hash);
+      return receipt ? { ...receipt, confirmations: async () => this.blockNumber - receipt.blockNumber + 1 } : null;
+    },
+    getTransactionCount: async (from: string) => this.nonces.get(from.toLowerCase()) ?? 0,
+    getBlock: async (blockNumber: number) => ({ prefetchedTransactions: this.blocks.get(blockNumber) ?? [] }),
+  } as unknown as ethers.Provider;
+}
+
+function tracker(chain: FakeChain, options: TransactionTrackerOptions = {}) {
+  return new TransactionTracker(chain.provider, { pollIntervalMs: 1, ...options });
+}
+
+describe('TransactionTracker', () => {
+  beforeAll(() => {
+    setLogLevel('silent');
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('confirms a mined transaction', async () => {
+    const chain = new FakeChain(11155111);
+    const tx = makeTransaction(1);
+    const statuses: string[] = [];
+
+    const final = await tracker(chain).track(chain.send(tx), {
+      onUpdate: (update) => {
+        statuses.push(update.status);
+        if (update.status === 'pending') chain.mine(tx);
+      },
+    });
+
+    expect(final).toMatchObject({ hash: tx.hash, status: 'confirmed', confirmations: 1, blockNumber: 11 });
+    expect(statuses).toEqual(['submitted', 'pending', 'confirmed']);
+  });
+
+  it('reports a reverted transaction', async () => {
+    const chain = new FakeChain(11155111);
+    const tx = makeTransaction(1);
+    chain.mine(tx, 0);
+
+    await expect(tracker(chain).track(chain.send(tx))).resolves.toMatchObject({ status: 'reverted', blockNumber: 11 });
+  });
+
+  it('follows a speed-up to its replacement', async () => {
+    const chain = new FakeChain(11155111);
+    const original = makeTransaction(1);
+    const speedUp = makeTransaction(2);
+    const updates: TrackedTransaction[] = [];
+
+    const final = await tracker(chain).track(chain.send(original), {
+      onUpdate: (update) => {
+        updates.push(update);
+        if (update.status === 'submitted') chain.mine(speedUp);
+      },
+    });
+
+    expect(updates.find((update) => update.hash === original.hash && update.status === 'replaced'))
+      .toMatchObject({ replacedBy: speedUp.hash, replacementReason: 'repriced' });
+    expect(final).toMatchObject({ hash: speedUp.hash, replaces: original.hash, status: 'confirmed' });
+  });
+
+  it('tells a cancel from a speed-up', async () => {
+    const chain = new FakeChain(11155111);
+    const original = makeTransaction(1);
+    const cancel = makeTransaction(2, { to: USER, data: '0x' });
+    const reasons: Array<string | undefined> = [];
+
+    const final = await tracker(chain).track(chain.send(original), {
+      onUpdate: (update) => {
+        if (update.status === 'submitted') chain.mine(cancel);
+        if (update.status === 'replaced') reasons.push(update.replacementReason);
+      },
+    });
+
+    expect(reasons).toEqual(['cancelled']);
+    expect(final).toMatchObject({ hash: cancel.hash, replaces: original.hash, status: 'confirmed' });
+  });
+
+  it('drops a transaction the node forgot while its nonce stays unused', async () => {
+    const chain = new FakeChain(11155111);
+    const tx = makeTransaction(1);
+    chain.send(tx);
+    chain.evict(tx.hash);
+
+    const final = await tracker(chain, { dropTimeoutMs: 5 }).track(tx as unknown as ethers.TransactionResponse);
+
+    expect(final.status).toBe('dropped');
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('resumes unfinished transactions from localStorage after a reload', async () => {
+    const chain = new FakeChain(11155111);
+    const tx = makeTransaction(1);
+    const first = tracker(chain);
+
+    const tracking = first.track(chain.send(tx), {
+      onUpdate: (update) => {
+        if (update.status === 'pending') first.stop();
+      },
+    });
+    await expect(tracking).rejects.toBeInstanceOf(FhevmAbortError);
+    expect(localStorage.getItem('fhevm-sdk:transactions')).toContain(tx.hash);
+
+    // A new page: a fresh tracker finds the transaction and follows it to the end
+    const second = tracker(chain);
+    const confirmed = new Promise<TrackedTransaction>((resolve) => second.subscribe(() => {
+      const resumed = second.get(tx.hash);
+      if (resumed?.status === 'confirmed') resolve(resumed);
+    }));
+    const resumed = await second.resume();
+    expect(resumed.map(({ hash, status }) => ({ hash, status }))).toEqual([{ hash: tx.hash, status: 'pending' }]);
+
+    chain.mine(tx);
+    await expect(confirmed).resolves.toMatchObject({ confirmations: 1 });
+    expect(localStorage.getItem('fhevm-sdk:transactions')).toBeNull();
+  });
+
+  it('skips persisted transactions from other chains on resume', async () => {
+    const other = new FakeChain(1);
+    const first = tracker(other);
+    const tracking = first.track(other.send(makeTransaction(1)), {
+      onUpdate: (update) => {
+        if (update.status === 'pending') first.stop();
+      },
+    });
+    await expect(tracking).rejects.toBeInstanceOf(FhevmAbortError);
+
+    await expect(tracker(new FakeChain(11155111)).resume()).resolves.toEqual([]);
+  });
+
+  it('polls an auto-mining local chain without waiting out the public-chain interval', async () => {
+    const chain = new FakeChain(31337);
+    const tx = makeTransaction(1);
+    const started = Date.now();
+
+    const final = await new TransactionTracker(chain.provider).track(chain.send(tx), {
+      onUpdate: (update) => {
+        if (update.status === 'pending') chain.mine(tx);
+      },
+    });
+
+    expect(final.status).toBe('confirmed');
+    expect(Date.now() - started).toBeLessThan(2_000);
+  });
+});
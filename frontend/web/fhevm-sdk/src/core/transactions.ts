@@ -0,0 +1,415 @@
+/**
+ * Transaction Tracker - Universal SDK
+ * Follows submitted transactions through submitted, pending, replaced
+ * (speed-up or cancel), confirmed, reverted and dropped states by polling
+ * the node, so it behaves the same on Sepolia and a local Hardhat node.
+ * Unfinished transactions are persisted and resumed after a page reload.
+ */
+
+import { ethers } from "ethers";
+import { FhevmAbortError, isFhevmError } from './errors.js';
+import { logger } from './logger.js';
+import { HARDHAT_CHAIN_ID } from './mock.js';
+import { sleep } from './operation.js';
+
+export type TransactionStatus = 'submitted' | 'pending' | 'replaced' | 'confirmed' | 'reverted' | 'dropped';
+
+/** 'repriced' is a speed-up (same call, higher fee); 'cancelled' a zero-value self-transfer */
+export type ReplacementReason = 'repriced' | 'cancelled' | 'replaced';
+
+/** JSON-safe so it can be persisted as is */
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  to: string | null;
+  /** Decimal wei */
+  value: string;
+  /** keccak256 of the calldata, to tell a speed-up from a replacement */
+  dataHash: string;
+  /** Caller's label, e.g. the contract method */
+  label?: string;
+  status: TransactionStatus;
+  /** 0 until mined; counts up to the tracker's target while pending */
+  confirmations: number;
+  blockNumber?: number;
+  /** Latest block when tracking started; replacements are searched from here */
+  startBlock: number;
+  submittedAt: number;
+  updatedAt: number;
+  /** Set on a replaced transaction: the one that took its nonce */
+  replacedBy?: string;
+  replacementReason?: ReplacementReason;
+  /** Set on a replacement: the transaction it replaced */
+  replaces?: string;
+}
+
+export type TransactionListener = (tx: TrackedTransaction) => void;
+
+/**
+ * Storage backend for unfinished transactions
+ */
+export interface TransactionStore {
+  put(tx: TrackedTransaction): Promise<void>;
+  delete(hash: string): Promise<void>;
+  list(): Promise<TrackedTransaction[]>;
+}
+
+const STORAGE_KEY = 'fhevm-sdk:transactions';
+
+/**
+ * localStorage-backed store (browser default)
+ */
+export class LocalStorageTransactionStore implements TransactionStore {
+  constructor(private key: string = STORAGE_KEY) {}
+
+  private read(): Record<string, TrackedTransaction> {
+    try {
+      return JSON.parse(localStorage.getItem(this.key) ?? '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private write(transactions: Record<string, TrackedTransaction>) {
+    if (Object.keys(transactions).length === 0) localStorage.removeItem(this.key);
+    else localStorage.setItem(this.key, JSON.stringify(transactions));
+  }
+
+  async put(tx: TrackedTransaction) {
+    this.write({ ...this.read(), [tx.hash]: tx });
+  }
+
+  async delete(hash: string) {
+    const transactions = this.read();
+    delete transactions[hash];
+    this.write(transactions);
+  }
+
+  async list() {
+    return Object.values(this.read());
+  }
+}
+
+/**
+ * In-memory store (used where localStorage is unavailable, e.g. Node.js)
+ */
+export class MemoryTransactionStore implements TransactionStore {
+  private transactions = new Map<string, TrackedTransaction>();
+
+  async put(tx: TrackedTransaction) {
+    this.transactions.set(tx.hash, tx);
+  }
+
+  async delete(hash: string) {
+    this.transactions.delete(hash);
+  }
+
+  async list() {
+    return [...this.transactions.values()];
+  }
+}
+
+export interface TransactionTrackerOptions {
+  /** Confirmations before a transaction counts as confirmed (default 1) */
+  confirmations?: number;
+  /** Delay between node polls (default 4s, or 250ms on the auto-mining local Hardhat chain) */
+  pollIntervalMs?: number;
+  /** How long a transaction may be unknown to the node before it counts as dropped (default 5 min) */
+  dropTimeoutMs?: number;
+  store?: TransactionStore;
+  /** Called on every state change of every tracked transaction */
+  onUpdate?: TransactionListener;
+}
+
+export interface TrackOptions {
+  label?: string;
+  /** Called on every state change of this transaction and its replacements */
+  onUpdate?: TransactionListener;
+}
+
+const POLL_INTERVAL_MS = 4_000;
+const LOCAL_POLL_INTERVAL_MS = 250;
+
+const FINAL_STATUSES: TransactionStatus[] = ['replaced', 'confirmed', 'reverted', 'dropped'];
+
+export function isFinalTransactionStatus(status: TransactionStatus): boolean {
+  return FINAL_STATUSES.includes(status);
+}
+
+type Change = Partial<Omit<TrackedTransaction, 'hash'>>;
+
+export class TransactionTracker {
+  private transactions = new Map<string, TrackedTransaction>();
+  private snapshot: TrackedTransaction[] = [];
+  private listeners = new Set<() => void>();
+  private following = new Map<string, Promise<TrackedTransaction>>();
+  // Next block to search for a replacement, per hash
+  private scannedBlock = new Map<string, number>();
+  private controller = new AbortController();
+  private chainId: Promise<number> | null = null;
+
+  private readonly confirmations: number;
+  private readonly pollIntervalMs?: number;
+  private readonly dropTimeoutMs: number;
+  private readonly store: TransactionStore;
+  private readonly onUpdate?: TransactionListener;
+
+  constructor(private provider: ethers.Provider, options: TransactionTrackerOptions = {}) {
+    this.confirmations = Math.max(1, options.confirmations ?? 1);
+    this.pollIntervalMs = options.pollIntervalMs;
+    this.dropTimeoutMs = options.dropTimeoutMs ?? 5 * 60_000;
+    this.store = options.store
+      ?? (typeof localStorage !== 'undefined' ? new LocalStorageTransactionStore() : new MemoryTransactionStore());
+    this.onUpdate = options.onUpdate;
+  }
+
+  /**
+   * Tracked transactions, newest first; a new array after every change and the same array otherwise
+   */
+  getSnapshot = (): TrackedTransaction[] => this.snapshot;
+
+  /**
+   * Call the listener after every change; returns the unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  get(hash: string): TrackedTransaction | undefined {
+    return this.transactions.get(hash);
+  }
+
+  /**
+   * Follow a submitted transaction until it is confirmed, reverted or dropped.
+   * A speed-up or cancel marks it replaced and the replacement is followed
+   * instead; the promise resolves with the last transaction's final state.
+   */
+  async track(tx: ethers.TransactionResponse, options: TrackOptions = {}): Promise<TrackedTransaction> {
+    const existing = this.following.get(tx.hash);
+    if (existing) return existing;
+
+    const [chainId, startBlock] = await Promise.all([this.getChainId(), this.provider.getBlockNumber()]);
+    const now = Date.now();
+    const entry: TrackedTransaction = {
+      hash: tx.hash,
+      chainId,
+      from: tx.from,
+      nonce: tx.nonce,
+      to: tx.to,
+      value: tx.value.toString(),
+      dataHash: ethers.keccak256(tx.data),
+      label: options.label,
+      status: 'submitted',
+      confirmations: 0,
+      startBlock,
+      submittedAt: now,
+      updatedAt: now,
+    };
+    logger.info(`📤 Tracking transaction ${tx.hash}${options.label ? ` (${options.label})` : ''}`);
+    await this.save(entry, options.onUpdate);
+    return this.startFollowing(entry, options.onUpdate);
+  }
+
+  /**
+   * Resume the unfinished transactions persisted for the provider's chain,
+   * e.g. after a page reload. Returns them in their last known state.
+   */
+  async resume(): Promise<TrackedTransaction[]> {
+    const chainId = await this.getChainId();
+    const stored = (await this.store.list()).filter((tx) => tx.chainId === chainId && !isFinalTransactionStatus(tx.status));
+    for (const tx of stored) {
+      if (this.following.has(tx.hash)) continue;
+      logger.info(`📤 Resuming transaction ${tx.hash}`);
+      this.transactions.set(tx.hash, tx);
+      this.startFollowing(tx).catch(() => {});
+    }
+    this.publish();
+    return stored;
+  }
+
+  /**
+   * Remove a finished transaction from the list (unfinished ones keep being followed)
+   */
+  forget(hash: string): void {
+    const tx = this.transactions.get(hash);
+    if (!tx || !isFinalTransactionStatus(tx.status)) return;
+    this.transactions.delete(hash);
+    this.publish();
+  }
+
+  /**
+   * Stop polling; pending track() promises reject with FhevmAbortError.
+   * Unfinished transactions stay persisted for the next resume().
+   */
+  stop(): void {
+    this.controller.abort();
+    this.controller = new AbortController();
+    this.following.clear();
+  }
+
+  private getChainId(): Promise<number> {
+    if (!this.chainId) this.chainId = this.provider.getNetwork().then((network) => Number(network.chainId));
+    return this.chainId;
+  }
+
+  private startFollowing(entry: TrackedTransaction, onUpdate?: TransactionListener): Promise<TrackedTransaction> {
+    const following = this.follow(entry, this.controller.signal, onUpdate).finally(() => {
+      if (this.following.get(entry.hash) === following) this.following.delete(entry.hash);
+    });
+    this.following.set(entry.hash, following);
+    return following;
+  }
+
+  private async follow(entry: TrackedTransaction, signal: AbortSignal, onUpdate?: TransactionListener): Promise<TrackedTransaction> {
+    let current = entry;
+    let lastSeen = Date.now();
+    const pollIntervalMs = this.pollIntervalMs
+      ?? (entry.chainId === HARDHAT_CHAIN_ID ? LOCAL_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
+
+    while (!isFinalTransactionStatus(current.status)) {
+      let change: Change | null = null;
+      try {
+        const seen = await this.provider.getTransaction(current.hash);
+        if (seen) lastSeen = Date.now();
+        change = await this.check(current, Boolean(seen), lastSeen);
+      } catch (error) {
+        if (signal.aborted) break;
+        // Flaky RPC: keep the last known state and poll again
+        logger.warn(`⚠️ Could not poll transaction ${current.hash}:`, error);
+      }
+      if (signal.aborted) break;
+
+      if (change) {
+        current = { ...current, ...change, updatedAt: Date.now() };
+        await this.save(current, onUpdate);
+        if (current.status === 'replaced' && current.replacedBy) {
+          current = await this.followReplacement(current, onUpdate);
+          lastSeen = Date.now();
+        }
+      }
+      if (isFinalTransactionStatus(current.status)) break;
+
+      try {
+        await sleep(pollIntervalMs, signal);
+      } catch (error) {
+        if (!isFhevmError(error, 'ABORTED')) throw error;
+        break;
+      }
+    }
+
+    if (signal.aborted) throw new FhevmAbortError(`Stopped tracking transaction ${current.hash}`);
+    return current;
+  }
+
+  /**
+   * Work out the next state of a transaction; null when nothing changed
+   */
+  private async check(tx: TrackedTransaction, known: boolean, lastSeen: number): Promise<Change | null> {
+    const receipt = await this.provider.getTransactionReceipt(tx.hash);
+    if (receipt) {
+      const confirmations = await receipt.confirmations();
+      if (receipt.status === 0) return { status: 'reverted', confirmations, blockNumber: receipt.blockNumber };
+      const status = confirmations >= this.confirmations ? 'confirmed' : 'pending';
+      if (status === tx.status && confirmations === tx.confirmations) return null;
+      return { status, confirmations, blockNumber: receipt.blockNumber };
+    }
+
+    // Not mined, but its nonce is used: another transaction took its place
+    const minedNonce = await this.provider.getTransactionCount(tx.from, 'latest');
+    if (minedNonce > tx.nonce) {
+      const replacement = await this.findReplacement(tx);
+      if (replacement) {
+        return { status: 'replaced', replacedBy: replacement.hash, replacementReason: replacementReason(tx, replacement) };
+      }
+      // Mined between the two calls, or not found yet: poll again
+      return null;
+    }
+
+    if (known) return tx.status === 'pending' && tx.confirmations === 0 ? null : { status: 'pending', confirmations: 0 };
+    if (Date.now() - lastSeen > this.dropTimeoutMs) return { status: 'dropped' };
+    return null;
+  }
+
+  // Search the blocks mined since the transaction was sent for its nonce
+  private async findReplacement(tx: TrackedTransaction): Promise<ethers.TransactionResponse | null> {
+    const latest = await this.provider.getBlockNumber();
+    let blockNumber = this.scannedBlock.get(tx.hash) ?? tx.startBlock;
+    for (; blockNumber <= latest; blockNumber++) {
+      const block = await this.provider.getBlock(blockNumber, true);
+      const replacement = block?.prefetchedTransactions.find((candidate) =>
+        candidate.from.toLowerCase() === tx.from.toLowerCase() && candidate.nonce === tx.nonce
+      );
+      if (replacement) {
+        this.scannedBlock.delete(tx.hash);
+        // Our own transaction, mined between polls: the receipt shows up next time
+        return replacement.hash === tx.hash ? null : replacement;
+      }
+    }
+    this.scannedBlock.set(tx.hash, blockNumber);
+    return null;
+  }
+
+  private async followReplacement(replaced: TrackedTransaction, onUpdate?: TransactionListener): Promise<TrackedTransaction> {
+    const hash = replaced.replacedBy!;
+    logger.info(`🔁 Transaction ${replaced.hash} was ${replaced.replacementReason} by ${hash}`);
+    const replacement = await this.provider.getTransaction(hash);
+    const now = Date.now();
+    const entry: TrackedTransaction = {
+      ...replaced,
+      hash,
+      to: replacement?.to ?? replaced.to,
+      value: replacement ? replacement.value.toString() : replaced.value,
+      dataHash: replacement ? ethers.keccak256(replacement.data) : replaced.dataHash,
+      status: 'pending',
+      confirmations: 0,
+      blockNumber: undefined,
+      replacedBy: undefined,
+      replacementReason: undefined,
+      replaces: replaced.hash,
+      updatedAt: now,
+    };
+    await this.save(entry, onUpdate);
+    return entry;
+  }
+
+  private async save(tx: TrackedTransaction, onUpdate?: TransactionListener) {
+    this.transactions.set(tx.hash, tx);
+    if (isFinalTransactionStatus(tx.status)) {
+      await this.store.delete(tx.hash);
+      this.logFinal(tx);
+    } else {
+      await this.store.put(tx);
+    }
+    this.publish();
+    onUpdate?.(tx);
+    this.onUpdate?.(tx);
+  }
+
+  private logFinal(tx: TrackedTransaction) {
+    switch (tx.status) {
+      case 'confirmed': logger.info(`✅ Transaction ${tx.hash} confirmed (${tx.confirmations} confirmation(s))`); break;
+      case 'reverted': logger.warn(`❌ Transaction ${tx.hash} reverted in block ${tx.blockNumber}`); break;
+      case 'dropped': logger.warn(`⚠️ Transaction ${tx.hash} was dropped by the node`); break;
+    }
+  }
+
+  private publish() {
+    this.snapshot = [...this.transactions.values()].sort((a, b) => b.submittedAt - a.submittedAt);
+    for (const listener of [...this.listeners]) listener();
+  }
+}
+
+function replacementReason(tx: TrackedTransaction, replacement: ethers.TransactionResponse): ReplacementReason {
+  const sameCall = replacement.to === tx.to
+    && replacement.value.toString() === tx.value
+    && ethers.keccak256(replacement.data) === tx.dataHash;
+  if (sameCall) return 'repriced';
+  const selfTransfer = replacement.to?.toLowerCase() === tx.from.toLowerCase();
+  if (selfTransfer && replacement.value === 0n && replacement.data === '0x') return 'cancelled';
+  return 'replaced';
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { FhevmAbortError, RelayerUnavailableError } from './errors.js';
+import { fhevmEvents } from './events.js';
+import { setLogLevel } from './logger.js';
+import { HttpRelayerTransport, REQUEST_ID_HEADER } from './transport.js';
+import type { HttpRelayerTransportOptions } from './transport.js';
+
+const BASE_URL = 'https://relayer.example';
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+// fetch answering with the queued responses in order, recording each call and its time
+function fakeFetch(...answers: Array<Response | Error>) {
+  const calls: Array<{ url: string; init: RequestInit; at: number }> = [];
+  const fetch = vi.fn(async (url: string, init: RequestInit) => {
+    calls.push({ url, init, at: Date.now() });
+    const answer = answers.shift() ?? json({ response: 'ok' });
+    if (answer instanceof Error) throw answer;
+    return answer;
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, calls };
+}
+
+function transport(fetch: typeof globalThis.fetch, options: Partial<HttpRelayerTransportOptions> = {}) {
+  return new HttpRelayerTransport({ baseUrl: `${BASE_URL}/`, fetch, createRequestId: () => 'req-1', ...options });
+}
+
+// Run a request to completion, firing the backoff timers as they come due
+async function settle<T>(request: Promise<T>): Promise<T> {
+  const outcome = request.then((value) => ({ value }), (error) => ({ error }));
+  await vi.runAllTimersAsync();
+  const result = await outcome as { value?: T; error?: unknown };
+  if ('error' in result) throw result.error;
+  return result.value as T;
+}
+
+describe('HttpRelayerTransport', () => {
+  const unsubscribes: Array<() => void> = [];
+
+  beforeAll(() => {
+    setLogLevel('silent');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    unsubscribes.splice(0).forEach((unsubscribe) => unsubscribe());
+  });
+
+  it("posts the payload with the request ID and returns the 'response' field", async () => {
+    const { fetch, calls } = fakeFetch(json({ response: { handles: ['0x01'] } }));
+
+    await expect(transport(fetch, { headers: { 'x-api-key': 'k' } }).request('INPUT_PROOF', { a: 1 })).resolves.toEqual({ handles: ['0x01'] });
+
+    expect(calls[0].url).toBe(`${BASE_URL}/v1/input-proof`);
+    expect(calls[0].init).toMatchObject({
+      method: 'POST',
+      body: '{"a":1}',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'k', [REQUEST_ID_HEADER]: 'req-1' },
+    });
+  });
+
+  it('sends GET operations without a body', async () => {
+    const { fetch, calls } = fakeFetch();
+
+    await transport(fetch).request('KEY_URL');
+
+    expect(calls[0].url).toBe(`${BASE_URL}/v1/keyurl`);
+    expect(calls[0].init).toMatchObject({ method: 'GET', body: undefined });
+  });
+
+  it('retries 5xx, 429 and network errors with doubling backoff and the same request ID', async () => {
+    vi.useFakeTimers();
+    const { fetch, calls } = fakeFetch(json({}, 503), json({}, 429), new TypeError('fetch failed'), json({ response: 'done' }));
+    const retries: unknown[] = [];
+    unsubscribes.push(fhevmEvents.on('relayer:error', (event) => retries.push([event.status, event.retrying])));
+
+    await expect(settle(transport(fetch, { initialBackoffMs: 100 }).request('PUBLIC_DECRYPT'))).resolves.toBe('done');
+
+    expect(calls.map(({ at }, i) => (i === 0 ? 0 : at - calls[i - 1].at))).toEqual([0, 100, 200, 400]);
+    expect(calls.every(({ init }) => (init.headers as Record<string, string>)[REQUEST_ID_HEADER] === 'req-1')).toBe(true);
+    expect(retries).toEqual([[503, true], [429, true], [undefined, true]]);
+  });
+
+  it('caps the backoff at maxBackoffMs', async () => {
+    vi.useFakeTimers();
+    const { fetch, calls } = fakeFetch(json({}, 500), json({}, 500), json({}, 500));
+
+    await settle(transport(fetch, { initialBackoffMs: 1_000, maxBackoffMs: 1_500 }).request('METADATA'));
+
+    expect(calls.slice(1).map(({ at }, i) => at - calls[i].at)).toEqual([1_000, 1_500, 1_500]);
+  });
+
+  it('gives up after the configured retries', async () => {
+    vi.useFakeTimers();
+    const { fetch, calls } = fakeFetch(json({}, 502), json({}, 502), json({}, 502));
+
+    await expect(settle(transport(fetch, { retries: 2, initialBackoffMs: 1 }).request('USER_DECRYPT')))
+      .rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not retry client errors and keeps the JSON error message', async () => {
+    const { fetch, calls } = fakeFetch(json({ message: 'bad payload' }, 400));
+
+    await expect(transport(fetch).request('USER_DECRYPT')).rejects.toThrow('Relayer USER_DECRYPT failed with HTTP 400: bad payload [req-1]');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('does not retry an answer without a response field', async () => {
+    const { fetch, calls } = fakeFetch(json({ status: 'ok' }));
+
+    await expect(transport(fetch).request('KEY_URL')).rejects.toThrow(/answered without a 'response' field/);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('times out a hanging attempt', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    }));
+
+    const error = await settle(transport(fetch as unknown as typeof globalThis.fetch, { timeoutMs: 50, retries: 0 }).request('METADATA'))
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(RelayerUnavailableError);
+    expect(error.cause.message).toMatch(/timed out after 50ms/);
+    expect(error.cause.cause).toMatchObject({ code: 'RELAYER_TIMEOUT', operation: 'METADATA' });
+  });
+
+  it('stops retrying once aborted during the backoff', async () => {
+    vi.useFakeTimers();
+    const { fetch, calls } = fakeFetch(json({}, 503), json({}, 503));
+    const controller = new AbortController();
+
+    const request = transport(fetch, { initialBackoffMs: 1_000 }).request('PUBLIC_DECRYPT', {}, { signal: controller.signal });
+    const outcome = request.catch((error) => error);
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+
+    expect(await outcome).toBeInstanceOf(FhevmAbortError);
+    expect(calls).toHaveLength(1);
+  });
+});
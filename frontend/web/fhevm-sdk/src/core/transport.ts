@@ -0,0 +1,200 @@
+/**
+ * Relayer Transport - Universal SDK
+ * HTTP calls to the relayer endpoints with timeouts, exponential backoff
+ * and a request ID per call, so failures can be traced on both sides.
+ * Mock mode only: the RelayerSDK sends its own requests with the global fetch.
+ */
+
+import { FhevmAbortError, toFhevmError } from './errors.js';
+import type { FhevmError } from './errors.js';
+import { fhevmEvents, redactMessage } from './events.js';
+import { logger } from './logger.js';
+import { sleep, throwIfAborted } from './operation.js';
+
+/** Operation names match the RelayerSDK error causes (`cause.operation`) */
+export type RelayerOperation = 'INPUT_PROOF' | 'USER_DECRYPT' | 'PUBLIC_DECRYPT' | 'KEY_URL' | 'METADATA';
+
+/**
+ * Anything that can carry a relayer call (HTTP, an in-process mock, a test double)
+ * Resolves to the `response` field of the relayer JSON answer.
+ */
+export interface RelayerTransport {
+  request<T = any>(operation: RelayerOperation, payload?: unknown, options?: RelayerRequestOptions): Promise<T>;
+}
+
+export interface RelayerRequestOptions {
+  /** Cancel the call, including pending retries; it rejects with FhevmAbortError */
+  signal?: AbortSignal;
+}
+
+export interface HttpRelayerTransportOptions {
+  /** Relayer base URL, e.g. https://relayer.testnet.zama.org */
+  baseUrl: string;
+  /** Per-attempt timeout (default 30s) */
+  timeoutMs?: number;
+  /** Extra attempts after the first one for network errors, timeouts, 429 and 5xx (default 3) */
+  retries?: number;
+  /** First backoff delay, doubled on every retry (default 250ms) */
+  initialBackoffMs?: number;
+  /** Backoff ceiling (default 5s) */
+  maxBackoffMs?: number;
+  headers?: Record<string, string>;
+  /** Request ID generator; the same ID is sent on every retry of a call */
+  createRequestId?: () => string;
+  /** fetch implementation (defaults to the global one) */
+  fetch?: typeof fetch;
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const ENDPOINTS: Record<RelayerOperation, { method: 'GET' | 'POST'; path: string }> = {
+  INPUT_PROOF: { method: 'POST', path: '/v1/input-proof' },
+  USER_DECRYPT: { method: 'POST', path: '/v1/user-decrypt' },
+  PUBLIC_DECRYPT: { method: 'POST', path: '/v1/public-decrypt' },
+  KEY_URL: { method: 'GET', path: '/v1/keyurl' },
+  METADATA: { method: 'GET', path: '/v1/metadata' },
+};
+
+function defaultRequestId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Error shaped like the RelayerSDK ones, so toFhevmError classifies both the same way
+function relayerError(message: string, cause: { code: string; operation: RelayerOperation; requestId: string; status?: number }) {
+  const error = new Error(message) as Error & { cause?: unknown };
+  error.cause = cause;
+  return toFhevmError(error);
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+export class HttpRelayerTransport implements RelayerTransport {
+  readonly baseUrl: string;
+  private timeoutMs: number;
+  private retries: number;
+  private initialBackoffMs: number;
+  private maxBackoffMs: number;
+  private headers: Record<string, string>;
+  private createRequestId: () => string;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: HttpRelayerTransportOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+    this.retries = options.retries ?? 3;
+    this.initialBackoffMs = options.initialBackoffMs ?? 250;
+    this.maxBackoffMs = options.maxBackoffMs ?? 5_000;
+    this.headers = options.headers ?? {};
+    this.createRequestId = options.createRequestId ?? defaultRequestId;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async request<T = any>(operation: RelayerOperation, payload?: unknown, options?: RelayerRequestOptions): Promise<T> {
+    const requestId = this.createRequestId();
+    const signal = options?.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(signal);
+      const outcome = await this.attempt(operation, payload, requestId, signal);
+      if ('response' in outcome) return outcome.response as T;
+      if (!outcome.retryable || attempt >= this.retries) throw outcome.error;
+
+      const delay = Math.min(this.maxBackoffMs, this.initialBackoffMs * 2 ** attempt);
+      // The final failure is reported by the caller; retries are only visible here
+      fhevmEvents.emit('relayer:error', {
+        operation,
+        code: outcome.error.code,
+        message: redactMessage(outcome.error.message),
+        requestId,
+        status: outcome.status,
+        retrying: true,
+      });
+      logger.warn(`⚠️ Relayer ${operation} ${outcome.reason}, retrying in ${delay}ms (${attempt + 1}/${this.retries}) [${requestId}]`);
+      await sleep(delay, signal);
+    }
+  }
+
+  private async attempt(
+    operation: RelayerOperation,
+    payload: unknown,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<{ response: unknown } | { error: FhevmError; retryable: boolean; reason: string; status?: number }> {
+    const { method, path } = ENDPOINTS[operation];
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(method === 'POST' ? { 'Content-Type': 'application/json' } : {}),
+          ...this.headers,
+          [REQUEST_ID_HEADER]: requestId,
+        },
+        body: method === 'POST' ? JSON.stringify(payload ?? {}) : undefined,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        let message = body;
+        try {
+          message = JSON.parse(body)?.message ?? body;
+        } catch {
+          // plain-text error body
+        }
+        return {
+          error: relayerError(`Relayer ${operation} failed with HTTP ${response.status}: ${message} [${requestId}]`, {
+            code: 'RELAYER_FETCH_ERROR', operation, requestId, status: response.status,
+          }),
+          retryable: isRetryableStatus(response.status),
+          reason: `HTTP ${response.status}`,
+          status: response.status,
+        };
+      }
+
+      const json = await response.json();
+      if (!json || typeof json !== 'object' || json.response === undefined || json.response === null) {
+        return {
+          error: relayerError(`Relayer ${operation} answered without a 'response' field [${requestId}]`, {
+            code: 'RELAYER_UNEXPECTED_JSON_ERROR', operation, requestId, status: response.status,
+          }),
+          retryable: false,
+          reason: 'bad JSON',
+        };
+      }
+      return { response: json.response };
+    } catch (err: any) {
+      if (signal?.aborted) {
+        return { error: new FhevmAbortError(undefined, { cause: signal.reason }), retryable: false, reason: 'aborted' };
+      }
+      const timedOut = controller.signal.aborted;
+      return {
+        error: relayerError(
+          timedOut
+            ? `Relayer ${operation} timed out after ${this.timeoutMs}ms [${requestId}]`
+            : `Relayer ${operation} request failed: ${err?.message ?? err} [${requestId}]`,
+          { code: timedOut ? 'RELAYER_TIMEOUT' : 'RELAYER_UNKNOWN_ERROR', operation, requestId }
+        ),
+        retryable: true,
+        reason: timedOut ? 'timeout' : 'network error',
+      };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
+
+/**
+ * Accept either a ready transport or the options for an HTTP one
+ */
+export function toRelayerTransport(transport: RelayerTransport | HttpRelayerTransportOptions): RelayerTransport {
+  return 'request' in transport ? transport : new HttpRelayerTransport(transport);
+}
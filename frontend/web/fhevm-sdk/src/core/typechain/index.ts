@@ -0,0 +1,8 @@
+/**
+ * Typechain bindings the SDK uses at runtime, copied from the repo's generated
+ * types/ (which sit outside this package's rootDir). Regenerate them there and
+ * copy them over when the contracts change.
+ */
+
+export type { IACL, IACLInterface } from './IACL.js';
+export { IACL__factory } from './IACL__factory.js';
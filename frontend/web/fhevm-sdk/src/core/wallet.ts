@@ -0,0 +1,88 @@
+/**
+ * Injected Wallet - Universal SDK
+ * Connects the browser wallet and mirrors its account and chain into the
+ * shared store. Chain/account listeners are attached once however many
+ * hooks or composables watch the wallet.
+ */
+
+import { assertBrowserEnvironment } from './environment.js';
+import { ProviderNotFoundError, toFhevmError } from './errors.js';
+import { logger } from './logger.js';
+import { fhevmStore } from './store.js';
+
+let watchers = 0;
+let detachListeners: (() => void) | null = null;
+
+function handleChainChanged(chainIdHex: string) {
+  const chainId = parseInt(chainIdHex, 16);
+  fhevmStore.setState({ wallet: { chainId } });
+  logger.info('🔄 Chain changed to:', chainId);
+}
+
+function handleAccountsChanged(accounts: string[]) {
+  if (accounts.length === 0) {
+    // User disconnected
+    fhevmStore.setState({ wallet: { address: '', isConnected: false, chainId: 0 } });
+  } else {
+    fhevmStore.setState({ wallet: { address: accounts[0] } });
+  }
+}
+
+/**
+ * Follow chain and account changes of the injected wallet; returns the stop function
+ */
+export function watchWallet(): () => void {
+  if (typeof window === 'undefined' || !window.ethereum) return () => {};
+
+  if (watchers++ === 0) {
+    const ethereum = window.ethereum;
+    ethereum.on('chainChanged', handleChainChanged);
+    ethereum.on('accountsChanged', handleAccountsChanged);
+    detachListeners = () => {
+      ethereum.removeListener('chainChanged', handleChainChanged);
+      ethereum.removeListener('accountsChanged', handleAccountsChanged);
+    };
+  }
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    if (--watchers === 0) {
+      detachListeners?.();
+      detachListeners = null;
+    }
+  };
+}
+
+/**
+ * Ask the injected wallet for accounts; failures are stored on `wallet.error`.
+ * Throws UnsupportedEnvironmentError when called on the server.
+ */
+export async function connectWallet(): Promise<void> {
+  assertBrowserEnvironment('connectWallet()');
+  if (!window.ethereum) {
+    fhevmStore.setState({ wallet: { error: new ProviderNotFoundError('MetaMask not found. Please install MetaMask.') } });
+    return;
+  }
+
+  fhevmStore.setState({ wallet: { isConnecting: true, error: null } });
+
+  try {
+    const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+    const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+    fhevmStore.setState({ wallet: { address: accounts[0], isConnected: true, chainId: parseInt(chainId, 16) } });
+
+    logger.info('✅ Wallet connected:', accounts[0]);
+  } catch (err) {
+    fhevmStore.setState({ wallet: { error: toFhevmError(err) } });
+    logger.error('❌ Wallet connection failed:', err);
+  } finally {
+    fhevmStore.setState({ wallet: { isConnecting: false } });
+  }
+}
+
+export function disconnectWallet(): void {
+  fhevmStore.setState({ wallet: { address: '', isConnected: false, chainId: 0, error: null } });
+  logger.info('🔌 Wallet disconnected');
+}
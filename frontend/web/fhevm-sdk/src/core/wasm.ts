@@ -0,0 +1,173 @@
+/**
+ * WASM Asset Loading - Universal SDK
+ * Chooses where the TFHE and KMS WASM files come from, verifies their
+ * SHA-256 hashes when given, and records the source that was actually used.
+ */
+
+import { WasmIntegrityError } from './errors.js';
+import { fhevmEvents } from './events.js';
+import { logger } from './logger.js';
+
+/** Folder of the RelayerSDK UMD bundle loaded from the Zama CDN */
+export const RELAYER_SDK_CDN_BASE_URL = 'https://cdn.zama.org/relayer-sdk-js/0.3.0-5/';
+
+const TFHE_WASM_FILE = 'tfhe_bg.wasm';
+const KMS_WASM_FILE = 'kms_lib_bg.wasm';
+
+/**
+ * - cdn: only the CDN
+ * - local: only files served by the app (e.g. its public folder)
+ * - cdn-then-local: CDN first, local files if the CDN fails (default)
+ */
+export type WasmLoadStrategy = 'cdn' | 'local' | 'cdn-then-local';
+
+/** `bundled` is the Node.js RelayerSDK, which ships its WASM in the package */
+export type WasmSource = 'cdn' | 'local' | 'bundled';
+
+export interface WasmLoadOptions {
+  strategy?: WasmLoadStrategy;
+  /** Defaults to RELAYER_SDK_CDN_BASE_URL */
+  cdnBaseUrl?: string;
+  /** Defaults to '/' */
+  localBaseUrl?: string;
+  /** Expected SHA-256 per file, as hex or SRI (`sha256-<base64>`); unchecked when omitted */
+  integrity?: { tfhe?: string; kms?: string };
+}
+
+export interface FheRuntimeInfo {
+  /** Null until an instance has been created (mock mode loads no WASM) */
+  wasmSource: WasmSource | null;
+  tfheUrl: string | null;
+  kmsUrl: string | null;
+  /** True when both files were checked against an expected hash */
+  integrityVerified: boolean;
+  /** Why the CDN was abandoned, when the local files were used as fallback */
+  fallbackReason: string | null;
+  loadedAt: number | null;
+}
+
+let runtimeInfo: FheRuntimeInfo = {
+  wasmSource: null,
+  tfheUrl: null,
+  kmsUrl: null,
+  integrityVerified: false,
+  fallbackReason: null,
+  loadedAt: null,
+};
+
+/**
+ * Where the FHE WASM was loaded from (for diagnostics pages)
+ */
+export function getFheRuntimeInfo(): FheRuntimeInfo {
+  return { ...runtimeInfo };
+}
+
+export function recordBundledRuntime(): void {
+  runtimeInfo = {
+    wasmSource: 'bundled',
+    tfheUrl: null,
+    kmsUrl: null,
+    integrityVerified: false,
+    fallbackReason: null,
+    loadedAt: Date.now(),
+  };
+  fhevmEvents.emit('wasm:source', getFheRuntimeInfo());
+}
+
+function joinUrl(baseUrl: string, file: string): string {
+  return baseUrl.endsWith('/') ? `${baseUrl}${file}` : `${baseUrl}/${file}`;
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function expectedHex(integrity: string): string {
+  if (integrity.startsWith('sha256-')) {
+    return [...atob(integrity.slice('sha256-'.length))]
+      .map((c) => c.charCodeAt(0).toString(16).padStart(2, '0'))
+      .join('');
+  }
+  return integrity.replace(/^0x/, '').toLowerCase();
+}
+
+/**
+ * Fetch a WASM file and check it against the expected SHA-256
+ */
+async function fetchVerified(url: string, integrity: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+  }
+  const bytes = await response.arrayBuffer();
+  const actual = toHex(await crypto.subtle.digest('SHA-256', bytes));
+  if (actual !== expectedHex(integrity)) {
+    throw new WasmIntegrityError(`SHA-256 of ${url} is ${actual}, expected ${expectedHex(integrity)}`);
+  }
+  return bytes;
+}
+
+async function loadFrom(
+  initSDK: (params?: Record<string, any>) => Promise<unknown>,
+  source: 'cdn' | 'local',
+  baseUrl: string,
+  integrity: WasmLoadOptions['integrity']
+) {
+  const tfheUrl = joinUrl(baseUrl, TFHE_WASM_FILE);
+  const kmsUrl = joinUrl(baseUrl, KMS_WASM_FILE);
+
+  // With a hash the bytes are fetched and checked here; otherwise initSDK fetches the URL itself
+  const [tfheParams, kmsParams] = await Promise.all([
+    integrity?.tfhe ? fetchVerified(tfheUrl, integrity.tfhe) : tfheUrl,
+    integrity?.kms ? fetchVerified(kmsUrl, integrity.kms) : kmsUrl,
+  ]);
+  await initSDK({ tfheParams, kmsParams });
+
+  return {
+    wasmSource: source,
+    tfheUrl,
+    kmsUrl,
+    integrityVerified: !!integrity?.tfhe && !!integrity?.kms,
+  };
+}
+
+/**
+ * Run the RelayerSDK initSDK with WASM from the configured source
+ *
+ * @param initSDK - initSDK of the loaded RelayerSDK bundle
+ */
+export async function loadFheWasm(
+  initSDK: (params?: Record<string, any>) => Promise<unknown>,
+  options: WasmLoadOptions = {}
+): Promise<FheRuntimeInfo> {
+  const strategy = options.strategy ?? 'cdn-then-local';
+  const cdnBaseUrl = options.cdnBaseUrl ?? RELAYER_SDK_CDN_BASE_URL;
+  const localBaseUrl = options.localBaseUrl ?? '/';
+
+  let fallbackReason: string | null = null;
+  let loaded;
+
+  if (strategy === 'local') {
+    loaded = await loadFrom(initSDK, 'local', localBaseUrl, options.integrity);
+  } else {
+    try {
+      loaded = await loadFrom(initSDK, 'cdn', cdnBaseUrl, options.integrity);
+      logger.info('✅ FHEVM SDK initialized with CDN');
+    } catch (cdnError) {
+      if (strategy === 'cdn') throw cdnError;
+
+      // If CDN fails (usually CORS or a bad hash), fallback to local WASM files
+      logger.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
+      fallbackReason = cdnError instanceof Error ? cdnError.message : String(cdnError);
+      loaded = await loadFrom(initSDK, 'local', localBaseUrl, options.integrity);
+    }
+  }
+
+  if (loaded.wasmSource === 'local') {
+    logger.info('✅ FHEVM SDK initialized with local WASM files');
+  }
+
+  runtimeInfo = { ...loaded, fallbackReason, loadedAt: Date.now() };
+  fhevmEvents.emit('wasm:source', getFheRuntimeInfo());
+  return getFheRuntimeInfo();
+}
@@ -0,0 +1,261 @@
+/**
+ * FHE Worker - Universal SDK
+ * Runs a second RelayerSDK instance in a dedicated Web Worker and sends
+ * createEncryptedInput and generateKeypair to it, so proof and keypair
+ * generation never block the main thread. Results and errors come back
+ * as the RelayerSDK produced them.
+ */
+
+import { assertBrowserEnvironment } from './environment.js';
+import { UnsupportedEnvironmentError } from './errors.js';
+import { RELAYER_SDK_CDN_BASE_URL } from './wasm.js';
+import { logger } from './logger.js';
+
+/** RelayerSDK UMD bundle the worker loads by default */
+export const RELAYER_SDK_CDN_URL = `${RELAYER_SDK_CDN_BASE_URL}relayer-sdk-js.umd.cjs`;
+
+export interface FheWorkerOptions {
+  /** RelayerSDK UMD bundle loaded with importScripts; defaults to RELAYER_SDK_CDN_URL */
+  sdkUrl?: string;
+}
+
+/** Add method of a RelayerSDK encrypted input and its argument */
+export type EncryptedInputCall = [method: string, value: unknown];
+
+type Eip1193Provider = { request(args: { method: string; params?: unknown[] | object }): Promise<any> };
+
+type PendingCall = { resolve: (value: any) => void; reject: (error: unknown) => void };
+
+/**
+ * Body of the worker script. It is stringified into a blob URL, so it must not
+ * reference anything outside itself.
+ */
+function fheWorkerMain() {
+  const scope: any = self;
+  let sdk: any = null;
+  let instance: any = null;
+  let nextProviderRequestId = 0;
+  const providerRequests = new Map<number, { resolve: (value: any) => void; reject: (error: unknown) => void }>();
+
+  // Errors lose their extra fields when cloned, so copy the ones callers branch on
+  const serializeError = (error: unknown): any => {
+    if (!(error instanceof Error)) return { message: String(error) };
+    const source: any = error;
+    const serialized: any = { name: source.name, message: source.message, stack: source.stack };
+    for (const key of ['code', 'status', 'operation', 'requestId', 'data']) {
+      if (key in source) serialized[key] = source[key];
+    }
+    if (source.cause !== undefined) serialized.cause = serializeError(source.cause);
+    return serialized;
+  };
+
+  // EIP-1193 provider whose requests are answered by the main thread's wallet
+  const network = {
+    request: ({ method, params }: { method: string; params?: unknown }) => new Promise((resolve, reject) => {
+      const id = nextProviderRequestId++;
+      providerRequests.set(id, { resolve, reject });
+      scope.postMessage({ type: 'provider-request', id, method, params });
+    }),
+  };
+
+  const handlers: Record<string, (message: any) => unknown> = {
+    async init({ sdkUrl, wasmParams, config }) {
+      if (!sdk) {
+        scope.importScripts(sdkUrl);
+        sdk = scope.RelayerSDK || scope.relayerSDK;
+        if (!sdk) throw new Error(`RelayerSDK not found after loading ${sdkUrl}`);
+      }
+      await sdk.initSDK(wasmParams);
+      instance = await sdk.createInstance({ ...config, network });
+    },
+    encrypt({ contractAddress, userAddress, calls }) {
+      const input = instance.createEncryptedInput(contractAddress, userAddress);
+      for (const [method, value] of calls) input[method](value);
+      return input.encrypt();
+    },
+    generateKeypair() {
+      return instance.generateKeypair();
+    },
+  };
+
+  scope.onmessage = async (event: MessageEvent) => {
+    const message = event.data;
+    if (message.type === 'provider-response') {
+      const request = providerRequests.get(message.id);
+      providerRequests.delete(message.id);
+      if (message.ok) request?.resolve(message.result);
+      else request?.reject(Object.assign(new Error(message.error.message), message.error));
+      return;
+    }
+
+    try {
+      if (message.type !== 'init' && !instance) throw new Error('FHE worker is not initialized');
+      const result = await handlers[message.type](message);
+      scope.postMessage({ type: 'result', id: message.id, ok: true, result });
+    } catch (error) {
+      scope.postMessage({ type: 'result', id: message.id, ok: false, error: serializeError(error) });
+    }
+  };
+}
+
+/**
+ * Rebuild an error posted by the worker, keeping the fields toFhevmError looks at
+ */
+function deserializeError(serialized: any): Error {
+  const { cause, ...fields } = serialized;
+  const error = Object.assign(new Error(serialized.message), fields);
+  if (cause !== undefined) (error as any).cause = deserializeError(cause);
+  return error;
+}
+
+function serializeProviderError(error: any) {
+  return { message: error?.message ?? String(error), code: error?.code, data: error?.data };
+}
+
+/**
+ * Absolute URL for WASM params given as paths (a blob worker has no base URL)
+ */
+function resolveWasmParam(param: unknown): unknown {
+  return typeof param === 'string' ? new URL(param, location.href).href : param;
+}
+
+export class FheWorker {
+  private worker: Worker;
+  private nextId = 0;
+  private calls = new Map<number, PendingCall>();
+  private scriptUrl: string;
+
+  /**
+   * @param provider - wallet that answers the worker instance's RPC calls
+   */
+  constructor(private provider: Eip1193Provider, private options: FheWorkerOptions = {}) {
+    assertBrowserEnvironment('Worker mode');
+    if (typeof Worker === 'undefined') {
+      throw new UnsupportedEnvironmentError('Web Workers are not available in this environment. Remove the `worker` option.');
+    }
+
+    this.scriptUrl = URL.createObjectURL(new Blob([`(${fheWorkerMain.toString()})()`], { type: 'text/javascript' }));
+    this.worker = new Worker(this.scriptUrl);
+    this.worker.onmessage = (event) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      logger.error('❌ FHE worker failed:', event.message);
+      this.rejectAll(new Error(`FHE worker failed: ${event.message}`));
+    };
+  }
+
+  /**
+   * Load the RelayerSDK and WASM in the worker and create its instance
+   *
+   * @param wasmParams - the tfheParams/kmsParams the main thread passed to initSDK
+   * @param config - createInstance config without `network` (the worker uses the wallet proxy)
+   */
+  async init(wasmParams: Record<string, any> | undefined, config: Record<string, any>): Promise<void> {
+    const { network: _network, ...cloneable } = config;
+    await this.call('init', {
+      sdkUrl: this.options.sdkUrl ?? RELAYER_SDK_CDN_URL,
+      wasmParams: wasmParams && {
+        tfheParams: resolveWasmParam(wasmParams.tfheParams),
+        kmsParams: resolveWasmParam(wasmParams.kmsParams),
+      },
+      config: cloneable,
+    });
+    logger.info('✅ FHE worker initialized');
+  }
+
+  /**
+   * Replay the add calls on a worker-side encrypted input and encrypt it
+   */
+  encrypt(contractAddress: string, userAddress: string, calls: EncryptedInputCall[]): Promise<any> {
+    return this.call('encrypt', { contractAddress, userAddress, calls });
+  }
+
+  generateKeypair(): Promise<{ publicKey: string; privateKey: string }> {
+    return this.call('generateKeypair', {});
+  }
+
+  /**
+   * Stop the worker; calls still running are rejected
+   */
+  terminate(): void {
+    this.worker.terminate();
+    URL.revokeObjectURL(this.scriptUrl);
+    this.rejectAll(new Error('FHE worker terminated'));
+  }
+
+  private call(type: string, payload: Record<string, unknown>): Promise<any> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.calls.set(id, { resolve, reject });
+      this.worker.postMessage({ ...payload, type, id });
+    });
+  }
+
+  private handleMessage(message: any) {
+    if (message.type === 'provider-request') {
+      this.provider.request({ method: message.method, params: message.params }).then(
+        (result) => this.worker.postMessage({ type: 'provider-response', id: message.id, ok: true, result }),
+        (error) => this.worker.postMessage({ type: 'provider-response', id: message.id, ok: false, error: serializeProviderError(error) })
+      );
+      return;
+    }
+
+    const call = this.calls.get(message.id);
+    if (!call) return;
+    this.calls.delete(message.id);
+    if (message.ok) call.resolve(message.result);
+    else call.reject(deserializeError(message.error));
+  }
+
+  private rejectAll(error: Error) {
+    for (const call of this.calls.values()) call.reject(error);
+    this.calls.clear();
+  }
+}
+
+/**
+ * Encrypted input that records add calls and encrypts in the worker.
+ * Values are checked by the worker's RelayerSDK when encrypt() runs.
+ */
+class WorkerEncryptedInput {
+  private calls: EncryptedInputCall[] = [];
+  private bits = 0;
+
+  constructor(private worker: FheWorker, private contractAddress: string, private userAddress: string) {}
+
+  private record(method: string, value: unknown, bits: number) {
+    this.calls.push([method, value]);
+    this.bits += bits;
+    return this;
+  }
+
+  addBool(value: unknown) { return this.record('addBool', value, 2); }
+  add8(value: unknown) { return this.record('add8', value, 8); }
+  add16(value: unknown) { return this.record('add16', value, 16); }
+  add32(value: unknown) { return this.record('add32', value, 32); }
+  add64(value: unknown) { return this.record('add64', value, 64); }
+  add128(value: unknown) { return this.record('add128', value, 128); }
+  add256(value: unknown) { return this.record('add256', value, 256); }
+  addAddress(value: unknown) { return this.record('addAddress', value, 160); }
+
+  getBits(): number {
+    return this.bits;
+  }
+
+  encrypt(): Promise<any> {
+    return this.worker.encrypt(this.contractAddress, this.userAddress, [...this.calls]);
+  }
+}
+
+/**
+ * RelayerSDK instance whose createEncryptedInput runs in the worker. The sync
+ * generateKeypair stays on the main thread; generateKeypairAsync runs in the worker.
+ */
+export function withFheWorker<T extends object>(instance: T, worker: FheWorker): T & {
+  generateKeypairAsync(): Promise<{ publicKey: string; privateKey: string }>;
+} {
+  return {
+    ...instance,
+    createEncryptedInput: (contractAddress: string, userAddress: string) => new WorkerEncryptedInput(worker, contractAddress, userAddress),
+    generateKeypairAsync: () => worker.generateKeypair(),
+  };
+}
@@ -7,4 +7,4 @@
 export * from './core/index.js';
 
 // Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt, useFhevmStore, useTransactionTracker } from './adapters/react.js';
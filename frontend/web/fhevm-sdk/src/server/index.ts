@@ -0,0 +1,8 @@
+/**
+ * Universal FHEVM SDK - Node.js server tools
+ * Separate entry point so browser bundles never pull in `http`
+ */
+
+export * from './mockKms.js';
+export * from './relayer.js';
+export * from './permitStore.js';
@@ -0,0 +1,273 @@
+/**
+ * Mock KMS - Universal SDK (Node.js only)
+ * Keeps the clear values behind mock-mode handles, an in-memory ACL and the
+ * coprocessor/KMS signing keys, so the relayer stand-in can answer input-proof,
+ * user-decrypt and public-decrypt requests with valid signatures.
+ */
+
+import { ethers } from "ethers";
+import { constants, contracts, FhevmHandle, MockFhevmInstance } from '@fhevm/mock-utils';
+import type { FhevmType } from '@fhevm/mock-utils';
+import { HARDHAT_NETWORK } from '../core/networks.js';
+import type { FhevmNetworkPreset } from '../core/networks.js';
+import type { MockRelayerMetadata, MockVerifierMetadata } from '../core/mock.js';
+
+export interface MockKmsOptions {
+  /** Addresses and chain IDs to sign for (defaults to the hardhat preset) */
+  network?: FhevmNetworkPreset;
+  /** KMS signers for decryption results (default: one random wallet) */
+  kmsSigners?: ethers.Wallet[];
+  /** Coprocessor signers for input proofs (default: one random wallet) */
+  coprocessorSigners?: ethers.Wallet[];
+  /** Allow every handle for everyone instead of tracking ACL grants */
+  permissive?: boolean;
+}
+
+/**
+ * Relayer-style failure with the HTTP status the stand-in answers with
+ */
+export class MockRelayerError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'MockRelayerError';
+  }
+}
+
+const ACL_INTERFACE = new ethers.Interface([
+  'function persistAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+]);
+
+function eip712Domain(name: string, chainId: number, verifyingContract: string) {
+  return {
+    fields: 0x0f,
+    name,
+    version: '1',
+    chainId: BigInt(chainId),
+    verifyingContract,
+    salt: ethers.ZeroHash,
+  };
+}
+
+function toVerifierMetadata(signers: ethers.Wallet[], domain: ReturnType<typeof eip712Domain>): MockVerifierMetadata {
+  return {
+    signersAddresses: signers.map((signer) => signer.address),
+    threshold: signers.length,
+    eip712Domain: { ...domain, chainId: domain.chainId.toString() },
+  };
+}
+
+export class MockKms {
+  readonly network: FhevmNetworkPreset;
+  private permissive: boolean;
+  private clearValues = new Map<string, bigint>();
+  // handle -> accounts allowed to use it
+  private allowed = new Map<string, Set<string>>();
+  private publiclyDecryptable = new Set<string>();
+
+  private constructor(
+    network: FhevmNetworkPreset,
+    permissive: boolean,
+    private kmsSigners: ethers.Wallet[],
+    private coprocessorSigners: ethers.Wallet[],
+    private kmsVerifier: contracts.KMSVerifier,
+    private inputVerifier: contracts.InputVerifier
+  ) {
+    this.network = network;
+    this.permissive = permissive;
+  }
+
+  static async create(options: MockKmsOptions = {}): Promise<MockKms> {
+    const network = options.network ?? HARDHAT_NETWORK;
+    const kmsSigners = options.kmsSigners ?? [ethers.Wallet.createRandom() as unknown as ethers.Wallet];
+    const coprocessorSigners = options.coprocessorSigners ?? [ethers.Wallet.createRandom() as unknown as ethers.Wallet];
+
+    // Full properties are given, so the wrappers never read from a chain
+    const kmsVerifier = await contracts.KMSVerifier.create(
+      kmsSigners[0],
+      network.kmsContractAddress as `0x${string}`,
+      undefined,
+      {
+        signers: kmsSigners,
+        signersAddresses: kmsSigners.map((signer) => signer.address as `0x${string}`),
+        threshold: kmsSigners.length,
+        eip712Domain: eip712Domain(constants.PUBLIC_DECRYPT_EIP712.domain.name, network.gatewayChainId, network.verifyingContractAddressDecryption),
+      }
+    );
+    const inputVerifier = await contracts.InputVerifier.create(
+      coprocessorSigners[0],
+      network.inputVerifierContractAddress as `0x${string}`,
+      undefined,
+      {
+        signers: coprocessorSigners,
+        signersAddresses: coprocessorSigners.map((signer) => signer.address as `0x${string}`),
+        threshold: coprocessorSigners.length,
+        eip712Domain: eip712Domain(constants.INPUT_VERIFICATION_EIP712.domain.name, network.gatewayChainId, network.verifyingContractAddressInputVerification),
+      }
+    );
+
+    return new MockKms(network, options.permissive ?? false, kmsSigners, coprocessorSigners, kmsVerifier, inputVerifier);
+  }
+
+  /**
+   * Same shape as the Hardhat plugin's `fhevm_relayer_metadata`, plus the verifier settings
+   */
+  metadata(): MockRelayerMetadata {
+    const { network } = this;
+    return {
+      chainId: network.chainId,
+      gatewayChainId: network.gatewayChainId,
+      ACLAddress: network.aclContractAddress,
+      KMSVerifierAddress: network.kmsContractAddress,
+      InputVerifierAddress: network.inputVerifierContractAddress,
+      kmsVerifier: toVerifierMetadata(this.kmsSigners, eip712Domain(
+        constants.PUBLIC_DECRYPT_EIP712.domain.name, network.gatewayChainId, network.verifyingContractAddressDecryption
+      )),
+      inputVerifier: toVerifierMetadata(this.coprocessorSigners, eip712Domain(
+        constants.INPUT_VERIFICATION_EIP712.domain.name, network.gatewayChainId, network.verifyingContractAddressInputVerification
+      )),
+    };
+  }
+
+  /** Store a clear value for a handle produced outside the stand-in (e.g. a simulated FHE operation) */
+  setClearValue(handle: string, value: bigint | number | boolean): void {
+    this.clearValues.set(handle.toLowerCase(), BigInt(value));
+  }
+
+  /** Equivalent of FHE.allow(handle, account) */
+  allow(handle: string, account: string): void {
+    const key = handle.toLowerCase();
+    const accounts = this.allowed.get(key) ?? new Set<string>();
+    accounts.add(account.toLowerCase());
+    this.allowed.set(key, accounts);
+  }
+
+  /** Equivalent of FHE.makePubliclyDecryptable(handle) */
+  allowForDecryption(handle: string): void {
+    this.publiclyDecryptable.add(handle.toLowerCase());
+  }
+
+  isAllowed(handle: string, account: string): boolean {
+    return this.permissive || !!this.allowed.get(handle.toLowerCase())?.has(account.toLowerCase());
+  }
+
+  isAllowedForDecryption(handle: string): boolean {
+    return this.permissive || this.publiclyDecryptable.has(handle.toLowerCase());
+  }
+
+  /**
+   * POST /v1/input-proof: register the clear values and sign the handles
+   */
+  async inputProof(payload: any): Promise<{ handles: string[]; signatures: string[] }> {
+    const mockData = payload?.mockData;
+    if (!mockData) {
+      throw new MockRelayerError(400, 'The relayer stand-in only accepts mock-mode inputs (payload.mockData is missing).');
+    }
+    if (Number(payload.contractChainId) !== this.network.chainId) {
+      throw new MockRelayerError(400, `Input is for chain ${Number(payload.contractChainId)}, but the stand-in serves chain ${this.network.chainId}.`);
+    }
+
+    const handles = FhevmHandle.computeHandlesHex(
+      ethers.getBytes(payload.ciphertextWithInputVerification),
+      mockData.fhevmTypes as FhevmType[],
+      this.network.aclContractAddress,
+      this.network.chainId,
+      constants.FHEVM_HANDLE_VERSION
+    );
+
+    handles.forEach((handle, i) => {
+      this.setClearValue(handle, BigInt(mockData.clearTextValuesBigIntHex[i]));
+      // The contract receiving the input gets access, and grants it to the user
+      this.allow(handle, payload.contractAddress);
+      this.allow(handle, payload.userAddress);
+    });
+
+    const eip712 = this.inputVerifier.createCiphertextVerificationEIP712(
+      handles,
+      this.network.chainId,
+      payload.contractAddress,
+      payload.userAddress,
+      payload.extraData
+    );
+    const signatures = await Promise.all(this.coprocessorSigners.map((signer) =>
+      signer.signTypedData(eip712.domain, eip712.types as Record<string, ethers.TypedDataField[]>, eip712.message)
+    ));
+
+    return { handles, signatures };
+  }
+
+  /**
+   * POST /v1/user-decrypt: check the EIP-712 permit and the ACL, then return the clear values
+   */
+  async userDecrypt(payload: any): Promise<{ payload: { decrypted_values: string[] }; signature: string }> {
+    try {
+      await MockFhevmInstance.verifyUserDecryptSignature(
+        payload.publicKey,
+        payload.signature,
+        payload.contractAddresses,
+        payload.userAddress,
+        payload.requestValidity.startTimestamp,
+        payload.requestValidity.durationDays,
+        this.network.verifyingContractAddressDecryption,
+        this.network.chainId
+      );
+    } catch (err: any) {
+      throw new MockRelayerError(400, err?.message ?? 'Invalid EIP-712 signature!');
+    }
+
+    const values = (payload.handleContractPairs as Array<{ handle: string; contractAddress: string }>).map(({ handle, contractAddress }) => {
+      if (!this.isAllowed(handle, payload.userAddress)) {
+        throw new MockRelayerError(403, `User ${payload.userAddress} is not authorized to user decrypt handle ${handle}!`);
+      }
+      if (!this.isAllowed(handle, contractAddress)) {
+        throw new MockRelayerError(403, `dapp contract ${contractAddress} is not authorized to user decrypt handle ${handle}!`);
+      }
+      return this.requireClearValue(handle);
+    });
+
+    return {
+      payload: { decrypted_values: values.map((value) => ethers.toBeHex(value, 32)) },
+      signature: '00',
+    };
+  }
+
+  /**
+   * POST /v1/public-decrypt: check the handles are publicly decryptable and sign the result
+   */
+  async publicDecrypt(payload: any): Promise<{ decrypted_value: string; signatures: string[] }> {
+    const handles = payload.ciphertextHandles as string[];
+    const values = handles.map((handle) => {
+      if (!this.isAllowedForDecryption(handle)) {
+        throw new MockRelayerError(403, `Handle ${handle} is not allowed for public decryption!`);
+      }
+      return this.requireClearValue(handle);
+    });
+
+    const result = await this.kmsVerifier.computeDecryptionSignatures(handles, values, payload.extraData);
+    return { decrypted_value: result.abiEncodedClearResult, signatures: result.signatures };
+  }
+
+  /**
+   * eth_call against the ACL address (the only contract the stand-in knows)
+   */
+  call(to: string, data: string): string {
+    if (to.toLowerCase() !== this.network.aclContractAddress.toLowerCase()) return '0x';
+
+    const tx = ACL_INTERFACE.parseTransaction({ data });
+    if (!tx) return '0x';
+    const handle = ethers.toBeHex(BigInt(tx.args[0]), 32);
+    const allowed = tx.name === 'isAllowedForDecryption'
+      ? this.isAllowedForDecryption(handle)
+      : this.isAllowed(handle, tx.args[1]);
+    return ACL_INTERFACE.encodeFunctionResult(tx.fragment, [allowed]);
+  }
+
+  private requireClearValue(handle: string): bigint {
+    const value = this.clearValues.get(handle.toLowerCase());
+    if (value === undefined) {
+      throw new MockRelayerError(404, `Unknown ciphertext handle ${handle}: it was not created through this stand-in.`);
+    }
+    return value;
+  }
+}
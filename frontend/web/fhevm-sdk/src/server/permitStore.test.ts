@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readdir, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { DecryptionPermit } from '../core/permits.js';
+import { FilePermitStore } from './permitStore.js';
+
+function makePermit(id: string): DecryptionPermit {
+  return {
+    id,
+    chainId: 31337,
+    userAddress: '0x1234567890123456789012345678901234567890',
+    contractAddresses: [],
+    publicKey: `pub-${id}`,
+    privateKey: `priv-${id}`,
+    signature: 'signature',
+    startTimestamp: Math.floor(Date.now() / 1000),
+    durationDays: 1,
+  };
+}
+
+describe('FilePermitStore', () => {
+  let dir: string;
+  let store: FilePermitStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fhevm-permits-'));
+    store = new FilePermitStore(join(dir, 'permits.json'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps every permit stored at once', async () => {
+    await Promise.all(['a', 'b', 'c', 'd', 'e'].map((id) => store.put(makePermit(id))));
+
+    expect((await store.list()).map(({ id }) => id).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('revokes several permits at once', async () => {
+    for (const id of ['a', 'b', 'c', 'd', 'e']) await store.put(makePermit(id));
+
+    await Promise.all(['a', 'b', 'c', 'd'].map((id) => store.delete(id)));
+
+    expect((await store.list()).map(({ id }) => id)).toEqual(['e']);
+    expect(await readdir(dir)).toEqual(['permits.json']);
+  });
+
+  it('writes the file readable by its owner only', async () => {
+    await store.put(makePermit('a'));
+
+    expect((await stat(store.path)).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * File Permit Store - Universal SDK (Node.js only)
+ * Keeps decryption permits in a JSON file, so CLI runs and backend jobs
+ * reuse a signed permit instead of signing again on every start.
+ * The file holds the permit private keys unencrypted and is written with
+ * mode 0600; anyone who can read it can decrypt the user's handles until the
+ * permits expire.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import type { DecryptionPermit, PermitStore } from '../core/permits.js';
+
+/** ~/.fhevm/permits.json */
+export const DEFAULT_PERMIT_FILE = join(homedir(), '.fhevm', 'permits.json');
+
+// Temp file suffix, unique per write within this process
+let nextWriteId = 0;
+
+export class FilePermitStore implements PermitStore {
+  // Read-modify-write updates run one at a time, so concurrent deletes
+  // don't overwrite each other's changes
+  private updates: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string = DEFAULT_PERMIT_FILE) {}
+
+  private async read(): Promise<Record<string, DecryptionPermit>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return {};
+      throw err;
+    }
+  }
+
+  private async write(permits: Record<string, DecryptionPermit>) {
+    await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+    // Write then rename, so a crash never leaves a half-written file
+    const tmpPath = `${this.path}.${process.pid}.${nextWriteId++}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(permits, null, 2), { mode: 0o600 });
+    await rename(tmpPath, this.path);
+  }
+
+  // Queue an update behind the ones already running; a failed update
+  // rejects its own caller without blocking the next one
+  private update(change: (permits: Record<string, DecryptionPermit>) => boolean): Promise<void> {
+    const next = this.updates.then(async () => {
+      const permits = await this.read();
+      if (change(permits)) await this.write(permits);
+    });
+    this.updates = next.catch(() => {});
+    return next;
+  }
+
+  async get(id: string) {
+    return (await this.read())[id];
+  }
+
+  async put(permit: DecryptionPermit) {
+    await this.update((permits) => {
+      permits[permit.id] = permit;
+      return true;
+    });
+  }
+
+  async delete(id: string) {
+    await this.update((permits) => {
+      if (!(id in permits)) return false;
+      delete permits[id];
+      return true;
+    });
+  }
+
+  async list() {
+    return Object.values(await this.read());
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Relayer Stand-in - Universal SDK (Node.js only)
+ * Local HTTP server implementing the relayer endpoints on top of the mock KMS,
+ * plus a minimal JSON-RPC endpoint for the ACL reads the mock instance makes.
+ * Encryption and decryption then run end to end with no chain and no internet.
+ */
+
+import { createServer } from "http";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { logger } from '../core/logger.js';
+import { REQUEST_ID_HEADER } from '../core/transport.js';
+import { MockKms, MockRelayerError } from './mockKms.js';
+import type { MockKmsOptions } from './mockKms.js';
+
+export interface RelayerStandInOptions extends MockKmsOptions {
+  /** Default 127.0.0.1 */
+  host?: string;
+  /** Default 0 (a free port) */
+  port?: number;
+  /** Reuse an existing mock KMS instead of creating one */
+  kms?: MockKms;
+}
+
+export interface RelayerStandIn {
+  /** Relayer base URL, for the client's `relayer` option */
+  url: string;
+  /** JSON-RPC URL answering chain ID and ACL reads, for the client's `provider` option */
+  rpcUrl: string;
+  kms: MockKms;
+  close(): Promise<void>;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': `Content-Type, ${REQUEST_ID_HEADER}`,
+  'Access-Control-Expose-Headers': REQUEST_ID_HEADER,
+};
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = Buffer.concat(chunks).toString('utf8');
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch {
+    throw new MockRelayerError(400, 'Request body is not valid JSON.');
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+  res.end(JSON.stringify(body));
+}
+
+async function handleRpc(kms: MockKms, body: any) {
+  const { id = null, method, params = [] } = body ?? {};
+  switch (method) {
+    case 'eth_chainId':
+      return { jsonrpc: '2.0', id, result: `0x${kms.network.chainId.toString(16)}` };
+    case 'net_version':
+      return { jsonrpc: '2.0', id, result: String(kms.network.chainId) };
+    case 'eth_call':
+      return { jsonrpc: '2.0', id, result: kms.call(params[0]?.to ?? '', params[0]?.data ?? params[0]?.input ?? '0x') };
+    default:
+      return { jsonrpc: '2.0', id, error: { code: -32601, message: `The relayer stand-in does not support ${method}` } };
+  }
+}
+
+async function route(kms: MockKms, req: IncomingMessage): Promise<[number, unknown]> {
+  const path = (req.url ?? '/').split('?')[0];
+
+  if (req.method === 'GET' && path === '/v1/metadata') {
+    return [200, { response: kms.metadata() }];
+  }
+  if (req.method === 'POST' && path === '/v1/input-proof') {
+    return [200, { response: await kms.inputProof(await readJson(req)) }];
+  }
+  if (req.method === 'POST' && path === '/v1/user-decrypt') {
+    return [200, { response: [await kms.userDecrypt(await readJson(req))] }];
+  }
+  if (req.method === 'POST' && path === '/v1/public-decrypt') {
+    return [200, { response: [await kms.publicDecrypt(await readJson(req))] }];
+  }
+  if (req.method === 'POST' && path === '/rpc') {
+    const body = await readJson(req);
+    return [200, Array.isArray(body) ? await Promise.all(body.map((call) => handleRpc(kms, call))) : await handleRpc(kms, body)];
+  }
+  throw new MockRelayerError(404, `No relayer stand-in endpoint for ${req.method} ${path}`);
+}
+
+/**
+ * Start the relayer stand-in
+ *
+ * ```ts
+ * const standIn = await startRelayerStandIn()
+ * await initializeFheInstance({ mode: 'mock', rpcUrl: standIn.rpcUrl, relayer: { baseUrl: standIn.url } })
+ * ```
+ */
+export async function startRelayerStandIn(options: RelayerStandInOptions = {}): Promise<RelayerStandIn> {
+  const kms = options.kms ?? await MockKms.create(options);
+
+  const server = createServer(async (req, res) => {
+    const requestId = req.headers[REQUEST_ID_HEADER.toLowerCase()];
+    if (typeof requestId === 'string') res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    try {
+      const [status, body] = await route(kms, req);
+      send(res, status, body);
+    } catch (err: any) {
+      const status = err instanceof MockRelayerError ? err.status : 500;
+      logger.warn(`⚠️ Relayer stand-in ${req.method} ${req.url} -> ${status}: ${err?.message ?? err} [${requestId ?? 'no request id'}]`);
+      send(res, status, { message: err?.message ?? String(err) });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+
+  const { address, port } = server.address() as AddressInfo;
+  const url = `http://${address}:${port}`;
+  logger.info(`🧪 Relayer stand-in listening on ${url} (chain ${kms.network.chainId})`);
+
+  return {
+    url,
+    rpcUrl: `${url}/rpc`,
+    kms,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,13 @@
+// Vue module declaration (optional peer dependency)
+// Ambient file (no imports/exports), so it declares the module when Vue is not installed
+
+declare module 'vue' {
+  export type Ref<T> = { value: T };
+  export function ref<T>(value: T): Ref<T>;
+  export function shallowRef<T>(value: T): Ref<T>;
+  export function unref<T>(value: T | Ref<T>): T;
+  export function computed<T>(fn: () => T): { readonly value: T };
+  export function onMounted(fn: () => void): void;
+  export function onUnmounted(fn: () => void): void;
+  export function watch<T>(source: () => T, callback: (newValue: T, oldValue: T) => void, options?: any): void;
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Keeps vitest from picking up the app's vite.config.ts one directory up
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});
@@ -1,10 +1,10 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { JSX, useEffect, useState } from "react";
+import React, { JSX, useEffect, useRef, useState } from "react";
 import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useFhevm, useEncrypt, useDecrypt, useTransactionTracker, toFhevmError, isFhevmError, UserRejectedSignatureError } from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
 interface MedicalRecord {
@@ -57,6 +57,7 @@ const App: React.FC = () => {
   const { status, initialize, isInitialized } = useFhevm();
   const { encrypt, isEncrypting} = useEncrypt();
   const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const { track } = useTransactionTracker();
 
   useEffect(() => {
     const initFhevmAfterConnection = async () => {
@@ -174,7 +175,18 @@ const App: React.FC = () => {
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "等待交易确认..." });
-      await tx.wait();
+      let cancelled = false;
+      const tracked = await track(tx, {
+        label: "createBusinessData",
+        onUpdate: (update) => {
+          if (update.status !== "replaced") return;
+          cancelled = update.replacementReason === "cancelled";
+          setTransactionStatus({ visible: true, status: "pending", message: "交易已被替换，等待新交易确认..." });
+        }
+      });
+      if (cancelled) throw new Error("交易已在钱包中取消");
+      if (tracked.status === "reverted") throw new Error("交易执行失败");
+      if (tracked.status === "dropped") throw new Error("交易已被节点丢弃");
       
       setTransactionStatus({ visible: true, status: "success", message: "诊断记录创建成功!" });
       setTimeout(() => {
@@ -185,7 +197,7 @@ const App: React.FC = () => {
       setShowCreateModal(false);
       setNewRecordData({ name: "", symptoms: "", diagnosis: "" });
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
+      const errorMessage = toFhevmError(e) instanceof UserRejectedSignatureError
         ? "用户取消交易" 
         : "提交失败: " + (e.message || "未知错误");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
@@ -195,7 +207,7 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptData = async (businessId: string): Promise<number | null> => {
+  const decryptData = async (businessId: string, signal?: AbortSignal): Promise<number | null> => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "请先连接钱包" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -232,7 +244,9 @@ const App: React.FC = () => {
         [encryptedValueHandle],
         contractAddress,
         (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
+          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof),
+        undefined,
+        { signal }
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "链上验证解密中..." });
@@ -249,6 +263,8 @@ const App: React.FC = () => {
       return Number(clearValue);
       
     } catch (e: any) { 
+      // The detail modal was closed mid-decrypt
+      if (isFhevmError(e, 'ABORTED')) return null;
       if (e.message?.includes("Data already verified")) {
         setTransactionStatus({ 
           visible: true, 
@@ -611,7 +627,7 @@ const App: React.FC = () => {
           decryptedData={decryptedData} 
           setDecryptedData={setDecryptedData} 
           isDecrypting={isDecrypting || fheIsDecrypting} 
-          decryptData={() => decryptData(selectedRecord.symptoms)}
+          decryptData={(signal) => decryptData(selectedRecord.symptoms, signal)}
           calculateProbability={calculateProbability}
         />
       )}
@@ -716,16 +732,24 @@ const RecordDetailModal: React.FC<{
   decryptedData: { probability: number | null };
   setDecryptedData: (value: { probability: number | null }) => void;
   isDecrypting: boolean;
-  decryptData: () => Promise<number | null>;
+  decryptData: (signal?: AbortSignal) => Promise<number | null>;
   calculateProbability: (symptomValue: number) => number;
 }> = ({ record, onClose, decryptedData, setDecryptedData, isDecrypting, decryptData, calculateProbability }) => {
+  const decryptController = useRef<AbortController | null>(null);
+
+  // Closing the modal cancels a decryption still in progress
+  useEffect(() => () => decryptController.current?.abort(), []);
+
   const handleDecrypt = async () => {
     if (decryptedData.probability !== null) { 
       setDecryptedData({ probability: null }); 
       return; 
     }
     
-    const decrypted = await decryptData();
+    decryptController.current = new AbortController();
+    const { signal } = decryptController.current;
+    const decrypted = await decryptData(signal);
+    if (signal.aborted) return;
     if (decrypted !== null) {
       setDecryptedData({ probability: calculateProbability(decrypted) });
     }
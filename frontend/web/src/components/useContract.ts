@@ -2,10 +2,19 @@
 import { ethers } from "ethers";
 import abiJson from "../abi/UniversalFHEAdapter.json";
 import configJson from "../config.json";
+import type { UniversalFHEAdapter } from "../../../../types/contracts/UniversalFHEAdapter";
+import { UniversalFHEAdapter__factory } from "../../../../types/factories/contracts/UniversalFHEAdapter__factory";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
+// Generated typechain factory (`<Contract>__factory`), used to bind a typed contract
+export interface TypedContractFactory<T extends ethers.BaseContract> {
+  connect(address: string, runner?: ethers.ContractRunner | null): T;
+}
+
+const defaultFactory: TypedContractFactory<UniversalFHEAdapter> = UniversalFHEAdapter__factory;
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -49,12 +58,18 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+// Without a factory the app's UniversalFHEAdapter is bound
+export async function getContractReadOnly(): Promise<UniversalFHEAdapter | null>;
+export async function getContractReadOnly<T extends ethers.BaseContract>(factory: TypedContractFactory<T>, address?: string): Promise<T | null>;
+export async function getContractReadOnly(
+  factory: TypedContractFactory<ethers.BaseContract> = defaultFactory,
+  address: string = config.contractAddress
+): Promise<ethers.BaseContract | null> {
   try {
     const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const contract = factory.connect(address, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -66,7 +81,12 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<UniversalFHEAdapter>;
+export async function getContractWithSigner<T extends ethers.BaseContract>(factory: TypedContractFactory<T>, address?: string): Promise<T>;
+export async function getContractWithSigner(
+  factory: TypedContractFactory<ethers.BaseContract> = defaultFactory,
+  address: string = config.contractAddress
+): Promise<ethers.BaseContract> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
@@ -82,8 +102,7 @@ export async function getContractWithSigner() {
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return factory.connect(address, signer);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;